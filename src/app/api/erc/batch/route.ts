@@ -0,0 +1,14 @@
+// POST /api/erc/batch: check many diagrams with shared options (format: src/lib/ercApi.ts)
+
+import { ApiError, handleBatchRequest, parseRequestBody } from "@/lib/ercApi";
+
+
+export async function POST(request: Request) {
+  try {
+    const body = parseRequestBody(await request.text());
+    return Response.json(handleBatchRequest(body));
+  } catch (e) {
+    if (e instanceof ApiError) return Response.json(e.toBody(), { status: e.status });
+    throw e;
+  }
+}
@@ -0,0 +1,28 @@
+// POST /api/erc: check one diagram server-side (request and response format: src/lib/ercApi.ts)
+// GET /api/erc: the rules and built-in profiles a request can name
+
+import { ERC_RULES } from "@/lib/ercEngine";
+import { BUILTIN_PROFILES } from "@/lib/ruleProfiles";
+import { API_VERSION, ApiError, handleErcRequest, parseRequestBody } from "@/lib/ercApi";
+
+
+export async function POST(request: Request) {
+  try {
+    const body = parseRequestBody(await request.text());
+    return Response.json(handleErcRequest(body));
+  } catch (e) {
+    if (e instanceof ApiError) return Response.json(e.toBody(), { status: e.status });
+    throw e;
+  }
+}
+
+
+export function GET() {
+  return Response.json({
+    apiVersion: API_VERSION,
+    rules: ERC_RULES.map(({ id, label, description, severity, category, params }) => ({
+      id, label, description, severity, category, params,
+    })),
+    profiles: BUILTIN_PROFILES,
+  });
+}
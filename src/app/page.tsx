@@ -1,104 +1,276 @@
 "use client";
-import { useState } from "react";
-import { runERC } from "@/lib/ercEngine";
-
-const CHECK_OPTIONS = [
-  { id: 'floatingWires', label: 'Floating Wires', description: 'Check for wires with unconnected ends' },
-  { id: 'floatingBundledWires', label: 'Floating Bundled Wires', description: 'Check for floating wires in cables' },
-  { id: 'orphanComponents', label: 'Orphan Components', description: 'Check for components with no connections' },
-  { id: 'duplicates', label: 'Duplicate Names', description: 'Check for duplicate reference names' },
-  { id: 'multipleWires', label: 'Multiple Wires per Pin', description: 'Check for pins with multiple connections' },
-  { id: 'powerConnections', label: 'Power Connections', description: 'Check for invalid power connections' },
-  { id: 'serialConnections', label: 'Serial Connections', description: 'Check TX/RX connections' },
-  { id: 'missingPartNames', label: 'Missing Part Names', description: 'Check for components without part names' },
-  { id: 'missingLengths', label: 'Missing Wire Lengths', description: 'Check for wires without length specified' },
-];
+import { ChangeEvent, useMemo, useRef, useState, useSyncExternalStore } from "react";
+import { ERC_RULES, getRuleRegistry } from "@/lib/ercEngine";
+import { diffRevisionsInWorker, runERCInWorker } from "@/lib/ercWorkerClient";
+import { parsePinCompatibility, PinCompatibilityMatrix } from "@/lib/pinCompatibility";
+import { parseWaivers, Waiver } from "@/lib/waivers";
+import {
+  CustomRuleFile,
+  getCustomRulesSnapshot,
+  parseCustomRules,
+  parseStoredCustomRules,
+  saveCustomRules,
+} from "@/lib/customRules";
+import { describeStructuralDiff, RevisionDiff } from "@/lib/revisionDiff";
+import type { ERCFix, ERCProgress, ERCReport, ERCResult } from "@/lib/ercEngine";
+import { applyFixes } from "@/lib/fixes";
+import { formatLimits } from "@/lib/testPlan";
+import { hashDiagram } from "@/lib/testRecord";
+import {
+  BUILTIN_PROFILES,
+  getActiveProfileSnapshot,
+  isRuleEnabled,
+  parseActiveProfile,
+  RuleProfile,
+  saveActiveProfile,
+  subscribeToProfileStorage,
+} from "@/lib/ruleProfiles";
+import { Reporter, REPORTERS } from "@/lib/reporters";
+import { downloadFile } from "@/lib/download";
+import type { Diagram } from "@/lib/diagram";
+import type { ProjectFileResult } from "@/lib/project";
+import ManufacturingTables from "@/components/ManufacturingTables";
+import FixList from "@/components/FixList";
+import DiagramView from "@/components/DiagramView";
+import TestRunner from "@/components/TestRunner";
+import RuleProfilePanel from "@/components/RuleProfilePanel";
+import ProjectDashboard from "@/components/ProjectDashboard";
+
+// the console reporter is for terminals; the page downloads the other formats
+const DOWNLOAD_REPORTERS = REPORTERS.filter(r => r.format !== "console");
+
+// "Invalid JSON" only for what JSON.parse throws; errors from the run keep their own type
+function describeError(e: unknown): string {
+  if (e instanceof SyntaxError) return "❌ Invalid JSON: " + e.message;
+  return e instanceof Error ? `❌ ${e.name}: ${e.message}` : "❌ " + String(e);
+}
+
 
 
 export default function Home() {
   const [jsonInput, setJsonInput] = useState("");
+  const [baselineInput, setBaselineInput] = useState("");
   const [output, setOutput] = useState("");
-  const [enabledChecks, setEnabledChecks] = useState<Set<string>>(
-  new Set(CHECK_OPTIONS.map(opt => opt.id))
+  const [report, setReport] = useState<ERCReport | null>(null);
+  const [diagram, setDiagram] = useState<Diagram | null>(null);
+  const [fixesApplied, setFixesApplied] = useState(0);
+  // runs happen in a worker; a new run aborts the one in progress
+  const [progress, setProgress] = useState<ERCProgress | null>(null);
+  const runRef = useRef<AbortController | null>(null);
+  // rule selection lives in a profile, restored from browser storage once hydrated
+  const [editedProfile, setEditedProfile] = useState<RuleProfile | null>(null);
+  const storedProfile = useSyncExternalStore(subscribeToProfileStorage, getActiveProfileSnapshot, () => undefined);
+  const [compatibility, setCompatibility] = useState<{ name: string; matrix: PinCompatibilityMatrix } | null>(null);
+  const [waiverFile, setWaiverFile] = useState<{ name: string; waivers: Waiver[] } | null>(null);
+  // custom rules are kept in browser storage too; undefined until loaded or removed here
+  const [editedCustomRules, setEditedCustomRules] = useState<CustomRuleFile | null | undefined>(undefined);
+  const storedCustomRules = useSyncExternalStore(subscribeToProfileStorage, getCustomRulesSnapshot, () => undefined);
+  const customRules = useMemo(
+    () => editedCustomRules !== undefined ? editedCustomRules : storedCustomRules ? parseStoredCustomRules(storedCustomRules, ERC_RULES) : null,
+    [editedCustomRules, storedCustomRules]
+  );
+  const registry = useMemo(() => getRuleRegistry(customRules?.rules), [customRules]);
+  // test runs are tied to the exact diagram revision they were measured on
+  const diagramHash = useMemo(() => (diagram ? hashDiagram(diagram) : null), [diagram]);
+  const profile = useMemo(
+    () => editedProfile ?? (storedProfile === undefined ? null : parseActiveProfile(storedProfile, registry) ?? BUILTIN_PROFILES[0]),
+    [editedProfile, storedProfile, registry]
   );
+  const enabledCount = profile ? registry.filter(r => isRuleEnabled(profile, r.id)).length : 0;
+
+  function handleProfileChange(next: RuleProfile) {
+    setEditedProfile(next);
+    saveActiveProfile(next);
+  }
 
   
-function handleRunERC() {
+async function handleRunERC(text: string = jsonInput) {
+  runRef.current?.abort();
+  const run = new AbortController();
+  runRef.current = run;
   try {
-    const parsed = JSON.parse(jsonInput);
-    console.log("Parsed JSON:", parsed);
-
-    const { results, tests } = runERC(parsed); // ✅ call your ERC engine
-
-    // ✅ Filter results based on enabled checks
-    const filteredResults = results.filter(r => {
-      const msg = r.message.toLowerCase();
-
-      if (msg.includes("floating") && msg.includes("cable"))
-        return enabledChecks.has("floatingBundledWires");
-      if (msg.includes("floating"))
-        return enabledChecks.has("floatingWires");
-      if (msg.includes("orphan"))
-        return enabledChecks.has("orphanComponents");
-      if (msg.includes("duplicate"))
-        return enabledChecks.has("duplicates");
-      if (msg.includes("multiple wires"))
-        return enabledChecks.has("multipleWires");
-      if (msg.includes("power connection"))
-        return enabledChecks.has("powerConnections");
-      if (msg.includes("serial connection"))
-        return enabledChecks.has("serialConnections");
-      if (msg.includes("missing a part name"))
-        return enabledChecks.has("missingPartNames");
-      if (msg.includes("no length"))
-        return enabledChecks.has("missingLengths");
-      return true;
-    });
-
-    // ✅ Also filter test generation if needed (optional)
-    const filteredTests = tests; // could add similar filtering by category if desired
-
-    // ✅ Format nicely for display using *filtered* results
+    const parsed = JSON.parse(text);
+
+    const options = {
+      profile: profile ?? undefined,
+      pinCompatibility: compatibility?.matrix,
+      waivers: waiverFile?.waivers,
+      customRules: customRules?.rules,
+      onProgress: setProgress,
+    };
+
+    // with a baseline, compare the two revisions; otherwise check the diagram on its own
+    let diff: RevisionDiff | null = null;
+    let current: ERCReport;
+    let checked: Diagram | null;
+    if (baselineInput.trim()) {
+      let baseline: unknown;
+      try {
+        baseline = JSON.parse(baselineInput);
+      } catch (e) {
+        setOutput("❌ Invalid baseline JSON: " + (e instanceof Error ? e.message : String(e)));
+        return;
+      }
+      ({ diff, diagram: checked } = await diffRevisionsInWorker(baseline, parsed, options, run.signal));
+      current = diff.revision;
+    } else {
+      ({ report: current, diagram: checked } = await runERCInWorker(parsed, options, run.signal));
+    }
+
+    const { results, waived, tests, nets } = current;
+    setReport(current);
+    setDiagram(checked);
+
+    // ✅ Format nicely for display
+    const formatResult = (r: ERCResult) => `${r.type.toUpperCase()}: ${r.message}${r.path ? ` (at ${r.path})` : ""}`;
     const resultText =
-      filteredResults.length === 0
+      results.length === 0
         ? "✅ No ERC errors found!"
-        : filteredResults
-            .map(r => `${r.type.toUpperCase()}: ${r.message}`)
-            .join("\n\n");
+        : results.map(formatResult).join("\n\n");
+
+    let diffText = "";
+    if (diff) {
+      const changes = diff.structure ? describeStructuralDiff(diff.structure) : [];
+      diffText =
+        `🆕 New in this revision (${diff.introduced.length}):\n\n` +
+        (diff.introduced.map(formatResult).join("\n\n") || "none") +
+        `\n\n✅ Resolved since baseline (${diff.resolved.length}):\n\n` +
+        (diff.resolved.map(formatResult).join("\n\n") || "none") +
+        `\n\n↔️ Persisting: ${diff.persisting.length}` +
+        diff.severityChanges
+          .map(c => `\n   ${c.baseline.type} → ${c.revision.type}: ${c.revision.message}`)
+          .join("") +
+        "\n\n📐 Structural Changes:\n\n" +
+        (diff.structure ? changes.join("\n") || "none" : "not compared (a diagram is structurally invalid)") +
+        "\n\n📋 All Results:\n\n";
+    }
 
-    const testText = filteredTests
-      .map((t, idx) => `${idx + 1}. [${t.category}] ${t.instruction}`)
+    const waivedText = waived
+      .map(w => `${w.type.toUpperCase()}: ${w.message}\n   waived by ${w.waiver.author} on ${w.waiver.date}: ${w.waiver.reason}`)
       .join("\n\n");
 
-    setOutput(resultText + "\n\n🧰 Suggested Tests:\n\n" + testText);
-  } catch (e: any) {
-    setOutput("❌ Invalid JSON: " + e.message);
+    const testText = tests
+      .map(t => `${t.id} [${t.category}] ${t.instruction}\n   expected ${t.expected} (limits ${formatLimits(t)})`)
+      .join("\n\n");
+
+    const netText = nets
+      .map(n => `${n.id} ${n.name}: ${n.pins.map(p => `${p.label}${p.function ? ` (${p.function})` : ""}`).join(", ") || "no pins"}`)
+      .join("\n");
+
+    setOutput(
+      diffText +
+        resultText +
+        (waived.length > 0 ? "\n\n🛡️ Waived:\n\n" + waivedText : "") +
+        "\n\n🧰 Suggested Tests:\n\n" + testText +
+        "\n\n🔗 Nets:\n\n" + netText
+    );
+  } catch (e) {
+    if (run.signal.aborted) return;
+    setReport(null);
+    setDiagram(null);
+    setOutput(describeError(e));
+  } finally {
+    if (runRef.current === run) {
+      runRef.current = null;
+      setProgress(null);
+    }
   }
 }
 
-  function handleClear() {
-    setJsonInput("");
-    setOutput("");
+  function handleCancelRun() {
+    runRef.current?.abort();
   }
 
-  function toggleCheck(checkId: string) {
-    setEnabledChecks(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(checkId)) {
-        newSet.delete(checkId);
-      } else {
-        newSet.add(checkId);
-      }
-      return newSet;
-    });
+  // save the last report in one of the export formats
+  function handleDownload(reporter: Reporter) {
+    if (!report) return;
+    const content = reporter.render([{ file: "diagram.json", report }], registry);
+    downloadFile(`${reporter.format === "procedure" ? "test-procedure" : "erc-report"}.${reporter.extension}`, content, reporter.mimeType);
   }
 
-  function toggleAll() {
-    if (enabledChecks.size === CHECK_OPTIONS.length) {
-      setEnabledChecks(new Set());
-    } else {
-      setEnabledChecks(new Set(CHECK_OPTIONS.map(opt => opt.id)));
+  // load a pin compatibility rules file (see src/lib/defaultPinCompatibility.json)
+  async function handleLoadCompatibility(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const matrix = parsePinCompatibility(JSON.parse(await file.text()));
+      setCompatibility({ name: file.name, matrix });
+    } catch (err) {
+      setOutput("❌ Could not load pin compatibility rules: " + (err instanceof Error ? err.message : String(err)));
+    }
+    e.target.value = "";
+  }
+
+  // load a custom rules file (see src/lib/customRules.ts); it replaces any loaded before
+  async function handleLoadCustomRules(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const next = { name: file.name, rules: parseCustomRules(JSON.parse(await file.text()), ERC_RULES) };
+      setEditedCustomRules(next);
+      saveCustomRules(next);
+    } catch (err) {
+      setOutput("❌ Could not load custom rules: " + (err instanceof Error ? err.message : String(err)));
+    }
+    e.target.value = "";
+  }
+
+  // drop the custom rules, and their settings from the profile so it stays valid
+  function handleRemoveCustomRules() {
+    if (profile && customRules) {
+      const ids = new Set(customRules.rules.map(r => r.id));
+      handleProfileChange({ ...profile, rules: Object.fromEntries(Object.entries(profile.rules).filter(([id]) => !ids.has(id))) });
     }
+    setEditedCustomRules(null);
+    saveCustomRules(null);
+  }
+
+  // load a waiver sidecar file (a list of waivers, see src/lib/waivers.ts)
+  async function handleLoadWaivers(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const waivers = parseWaivers(JSON.parse(await file.text()));
+      setWaiverFile({ name: file.name, waivers });
+    } catch (err) {
+      setOutput("❌ Could not load waivers: " + (err instanceof Error ? err.message : String(err)));
+    }
+    e.target.value = "";
+  }
+
+  // apply fixes to the pasted diagram, then re-run the ERC on the result
+  async function handleApplyFixes(fixes: ERCFix[]) {
+    let doc: unknown;
+    try {
+      doc = JSON.parse(jsonInput);
+    } catch (e) {
+      setOutput(describeError(e));
+      return;
+    }
+    const { doc: patched, applied, skipped } = applyFixes(doc, fixes);
+    const text = JSON.stringify(patched, null, 2);
+    setJsonInput(text);
+    setFixesApplied(n => n + applied.length);
+    await handleRunERC(text);
+    if (skipped.length > 0) {
+      setOutput(prev => `⚠️ ${skipped.length} fix(es) no longer applied and were skipped: ${skipped.map(f => f.label).join("; ")}\n\n${prev}`);
+    }
+  }
+
+  // open one file of a project in the single-diagram view
+  function handleOpenProjectFile(file: ProjectFileResult) {
+    setJsonInput(file.text);
+    setFixesApplied(0);
+    handleRunERC(file.text);
+  }
+
+  function handleClear() {
+    setJsonInput("");
+    setBaselineInput("");
+    setOutput("");
+    setReport(null);
+    setDiagram(null);
+    setFixesApplied(0);
   }
 
   return (
@@ -106,32 +278,78 @@ function handleRunERC() {
       <h1 className="text-3xl font-bold mb-6 text-gray-800">⚡ Artifact ERC Checker</h1>
 
       <div className="w-full max-w-5xl grid grid-cols-1 md:grid-cols-3 gap-6">
-        {/* Left Column - Checks Selection */}
-        <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
-          <div className="flex items-center justify-between mb-3">
-            <h2 className="font-semibold text-gray-800">Select Checks</h2>
-            <button
-              onClick={toggleAll}
-              className="text-xs text-blue-600 hover:text-blue-700"
-            >
-              {enabledChecks.size === CHECK_OPTIONS.length ? 'Deselect All' : 'Select All'}
-            </button>
+        {/* Left Column - Checks Selection and Rule Files */}
+        <div className="space-y-4">
+          {profile && <RuleProfilePanel profile={profile} onChange={handleProfileChange} rules={registry} />}
+
+          {/* Pin compatibility matrix */}
+          <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+            <h2 className="font-semibold text-gray-800 mb-1">Pin Compatibility</h2>
+            <p className="text-xs text-gray-500 mb-2">
+              Using {compatibility ? compatibility.name : "the default matrix"}.
+            </p>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleLoadCompatibility}
+              className="block w-full text-xs text-gray-600"
+            />
+            {compatibility && (
+              <button
+                onClick={() => setCompatibility(null)}
+                className="mt-2 text-xs text-blue-600 hover:text-blue-700"
+              >
+                Use default
+              </button>
+            )}
           </div>
-          <div className="space-y-2 max-h-96 overflow-y-auto">
-            {CHECK_OPTIONS.map(opt => (
-              <label key={opt.id} className="flex items-start gap-2 cursor-pointer hover:bg-gray-50 p-2 rounded">
-                <input
-                  type="checkbox"
-                  checked={enabledChecks.has(opt.id)}
-                  onChange={() => toggleCheck(opt.id)}
-                  className="mt-1"
-                />
-                <div className="flex-1">
-                  <div className="text-sm font-medium text-gray-800">{opt.label}</div>
-                  <div className="text-xs text-gray-500">{opt.description}</div>
-                </div>
-              </label>
-            ))}
+
+          {/* Custom rule definitions */}
+          <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+            <h2 className="font-semibold text-gray-800 mb-1">Custom Rules</h2>
+            <p className="text-xs text-gray-500 mb-2">
+              {customRules
+                ? `${customRules.rules.length} custom rule(s) from ${customRules.name}, listed with the checks above.`
+                : "Only the built-in checks."}
+            </p>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleLoadCustomRules}
+              className="block w-full text-xs text-gray-600"
+            />
+            {customRules && (
+              <button
+                onClick={handleRemoveCustomRules}
+                className="mt-2 text-xs text-blue-600 hover:text-blue-700"
+              >
+                Remove custom rules
+              </button>
+            )}
+          </div>
+
+          {/* Waiver sidecar file */}
+          <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+            <h2 className="font-semibold text-gray-800 mb-1">Waivers</h2>
+            <p className="text-xs text-gray-500 mb-2">
+              {waiverFile
+                ? `${waiverFile.waivers.length} waiver(s) from ${waiverFile.name}, plus any in the diagram.`
+                : "Only waivers stored in the diagram."}
+            </p>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleLoadWaivers}
+              className="block w-full text-xs text-gray-600"
+            />
+            {waiverFile && (
+              <button
+                onClick={() => setWaiverFile(null)}
+                className="mt-2 text-xs text-blue-600 hover:text-blue-700"
+              >
+                Remove sidecar
+              </button>
+            )}
           </div>
         </div>
 
@@ -151,26 +369,95 @@ function handleRunERC() {
               className="w-full h-64 border border-gray-300 rounded-lg p-3 font-mono text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-800 bg-white placeholder:text-gray-400"
               placeholder="Paste your Artifact diagram JSON here..."
               value={jsonInput}
-              onChange={(e) => setJsonInput(e.target.value)}
+              onChange={(e) => {
+                setJsonInput(e.target.value);
+                setFixesApplied(0);
+              }}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Baseline JSON <span className="text-xs text-gray-400">(optional — compare against a previous revision)</span>
+            </label>
+            <textarea
+              className="w-full h-32 border border-gray-300 rounded-lg p-3 font-mono text-sm shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 text-gray-800 bg-white placeholder:text-gray-400"
+              placeholder="Paste the previous revision of the diagram to see new, resolved and persisting violations..."
+              value={baselineInput}
+              onChange={(e) => setBaselineInput(e.target.value)}
             />
           </div>
 
           <button
-            onClick={handleRunERC}
+            onClick={() => handleRunERC()}
             className="w-full px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition disabled:bg-gray-400 disabled:cursor-not-allowed"
-            disabled={!jsonInput.trim() || enabledChecks.size === 0}
+            disabled={!jsonInput.trim() || enabledCount === 0 || progress !== null}
           >
-            {enabledChecks.size === 0 ? 'Select at least one check' : 'Run ERC Checks'}
+            {enabledCount === 0 ? 'Select at least one check' : progress ? 'Running…' : 'Run ERC Checks'}
           </button>
 
+          {progress && (
+            <div>
+              <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span>
+                  {Math.round((progress.done / progress.total) * 100)}% — {registry.find(r => r.id === progress.step)?.label ?? progress.step}
+                </span>
+                <button onClick={handleCancelRun} className="text-blue-600 hover:text-blue-700">
+                  Cancel
+                </button>
+              </div>
+              <div className="h-2 bg-gray-200 rounded">
+                <div
+                  className="h-2 bg-blue-600 rounded transition-all"
+                  style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
           {output && (
             <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
-              <h3 className="font-semibold text-gray-800 mb-2">Results</h3>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="font-semibold text-gray-800">Results</h3>
+                {report && (
+                  <div className="flex gap-2">
+                    {DOWNLOAD_REPORTERS.map(r => (
+                      <button
+                        key={r.format}
+                        onClick={() => handleDownload(r)}
+                        className="text-xs px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+                      >
+                        ⬇ {r.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
               <div className="text-sm text-gray-800 whitespace-pre-line font-mono">
                 {output}
               </div>
             </div>
           )}
+
+          {diagram && report && <DiagramView diagram={diagram} results={report.results} />}
+
+          {report && (
+            <FixList
+              results={report.results}
+              appliedCount={fixesApplied}
+              onApply={handleApplyFixes}
+              onDownload={() => downloadFile("diagram.json", jsonInput, "application/json")}
+            />
+          )}
+
+          {report && diagramHash && <TestRunner tests={report.tests} diagramHash={diagramHash} />}
+
+          {diagram && <ManufacturingTables diagram={diagram} />}
+
+          <ProjectDashboard
+            options={{ profile: profile ?? undefined, pinCompatibility: compatibility?.matrix, waivers: waiverFile?.waivers, customRules: customRules?.rules }}
+            onOpen={handleOpenProjectFile}
+          />
         </div>
       </div>
     </main>
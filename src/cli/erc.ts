@@ -0,0 +1,191 @@
+// command-line ERC runner, for CI:
+//
+//   npm run erc -- check diagram.json [more.json ...] [options]
+//
+// exits 1 when any file has a result at or above --fail-on, 2 on usage or file errors
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { ERC_RULES, ERCOptions, ERCReport, ERCRule, getRuleRegistry, runERC, Severity } from "../lib/ercEngine";
+import { parseCustomRules } from "../lib/customRules";
+import { parsePinCompatibility } from "../lib/pinCompatibility";
+import { parseWaivers } from "../lib/waivers";
+import { BUILTIN_PROFILES, parseRuleProfiles, RuleProfile } from "../lib/ruleProfiles";
+import { getReporter, renderConsole, ReportFile, REPORTERS } from "../lib/reporters";
+
+const USAGE = `Usage: erc check <diagram.json> [more.json ...] [options]
+
+Options:
+  --profile <name|file>       rule profile: ${BUILTIN_PROFILES.map(p => p.name).join(", ")} or a profile file
+  --profile-name <name>       profile to use from a file that holds several
+  --rules <ids>               comma-separated rule ids to run (default: the profile's, or all)
+  --fail-on <level>           error | warning | info | never (default: error)
+  --pin-compatibility <file>  pin compatibility rules file
+  --custom-rules <file>       custom rule definitions, run next to the built-in rules
+  --waivers <file>            waiver sidecar file
+  --format <format>           ${REPORTERS.map(r => r.format).join(" | ")} (default: console)
+  --output <file>             write the report to a file instead of stdout
+  --quiet                     print one summary line per file instead of the report (any format)
+  --json                      same as --format json
+  --list-rules                list the rule ids (with any --custom-rules) and exit
+  -h, --help                  show this help
+`;
+
+// severities at or above each --fail-on level
+const FAILING: Record<string, Severity[]> = {
+  error: ["error"],
+  warning: ["error", "warning"],
+  info: ["error", "warning", "info"],
+  never: [],
+};
+
+class UsageError extends Error {}
+
+
+function readJson(file: string): unknown {
+  let text: string;
+  try {
+    text = readFileSync(file, "utf8");
+  } catch (e) {
+    throw new Error(`Cannot read ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new Error(`${file} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+
+// A built-in profile by name, or one from a profile file
+function loadProfile(source: string, name: string | undefined, registry: ERCRule[]): RuleProfile {
+  const builtin = BUILTIN_PROFILES.find(p => p.name === source);
+  if (builtin) return builtin;
+
+  const profiles = parseRuleProfiles(readJson(source), registry);
+  if (name) {
+    const profile = profiles.find(p => p.name === name);
+    if (!profile) throw new UsageError(`${source} has no profile named "${name}" (it has ${profiles.map(p => `"${p.name}"`).join(", ")}).`);
+    return profile;
+  }
+  if (profiles.length > 1) throw new UsageError(`${source} holds ${profiles.length} profiles; pick one with --profile-name.`);
+  return profiles[0];
+}
+
+
+function summarize(file: string, report: ERCReport): string {
+  const count = (type: Severity) => report.results.filter(r => r.type === type).length;
+  const parts = [`${count("error")} error(s)`, `${count("warning")} warning(s)`, `${count("info")} info`];
+  if (report.waived.length > 0) parts.push(`${report.waived.length} waived`);
+  return `${file}: ${parts.join(", ")}`;
+}
+
+
+function parseCommandLine(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        profile: { type: "string" },
+        "profile-name": { type: "string" },
+        rules: { type: "string" },
+        "fail-on": { type: "string", default: "error" },
+        "pin-compatibility": { type: "string" },
+        "custom-rules": { type: "string" },
+        waivers: { type: "string" },
+        format: { type: "string", default: "console" },
+        output: { type: "string" },
+        quiet: { type: "boolean", default: false },
+        json: { type: "boolean", default: false },
+        "list-rules": { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    });
+  } catch (e) {
+    // unknown or malformed options
+    throw new UsageError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+
+function main(argv: string[]): number {
+  const { values, positionals } = parseCommandLine(argv);
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // custom rules first: --list-rules, --rules and profiles may name them
+  const options: ERCOptions = {};
+  if (values["custom-rules"]) {
+    options.customRules = parseCustomRules(readJson(values["custom-rules"]), ERC_RULES);
+  }
+  const registry = getRuleRegistry(options.customRules);
+
+  if (values["list-rules"]) {
+    registry.forEach(r => console.log(`${r.id.padEnd(24)} ${r.severity.padEnd(8)} ${r.description}`));
+    return 0;
+  }
+
+  const [command, ...files] = positionals;
+  if (command !== "check") throw new UsageError(command ? `Unknown command "${command}".` : "No command given.");
+  if (files.length === 0) throw new UsageError("No diagram files given.");
+
+  const failing = FAILING[values["fail-on"]];
+  if (!failing) throw new UsageError(`--fail-on must be one of ${Object.keys(FAILING).join(", ")}.`);
+
+  const format = values.json ? "json" : values.format;
+  const reporter = getReporter(format);
+  if (!reporter) throw new UsageError(`--format must be one of ${REPORTERS.map(r => r.format).join(", ")}.`);
+
+  if (values.profile) {
+    options.profile = loadProfile(values.profile, values["profile-name"], registry);
+  } else if (values["profile-name"]) {
+    throw new UsageError("--profile-name needs --profile <file>.");
+  }
+  if (values.rules) {
+    const ids = values.rules.split(",").map(id => id.trim()).filter(Boolean);
+    const unknown = ids.filter(id => !registry.some(r => r.id === id));
+    if (unknown.length > 0) throw new UsageError(`Unknown rule id(s): ${unknown.join(", ")} (see --list-rules).`);
+    options.rules = ids;
+  }
+  if (values["pin-compatibility"]) {
+    options.pinCompatibility = parsePinCompatibility(readJson(values["pin-compatibility"]));
+  }
+  if (values.waivers) {
+    options.waivers = parseWaivers(readJson(values.waivers));
+  }
+
+  const reports: ReportFile[] = files.map(file => ({ file, report: runERC(readJson(file), options) }));
+  const printSummaries = () => reports.forEach(({ file, report }) => console.log(summarize(file, report)));
+
+  // machine-readable formats go to stdout alone, so they can be piped; --quiet leaves only the summaries.
+  // the console report is colored only on a terminal, never in a file or a pipe
+  const color = !values.output && Boolean(process.stdout.isTTY);
+  const rendered = reporter.format === "console" ? renderConsole(reports, { color }) : reporter.render(reports, registry);
+  if (values.output) {
+    writeFileSync(values.output, rendered);
+    printSummaries();
+  } else if (values.quiet) {
+    printSummaries();
+  } else if (reporter.format === "console") {
+    console.log(rendered);
+    printSummaries();
+  } else {
+    console.log(rendered);
+  }
+
+  const failed = reports.some(({ report }) => report.results.some(r => failing.includes(r.type)));
+  return failed ? 1 : 0;
+}
+
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (e) {
+  console.error(`erc: ${e instanceof Error ? e.message : String(e)}`);
+  if (e instanceof UsageError) console.error(`\n${USAGE}`);
+  process.exitCode = 2;
+}
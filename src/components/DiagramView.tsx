@@ -0,0 +1,333 @@
+"use client";
+import { MouseEvent, useEffect, useMemo, useRef, useState } from "react";
+import { DiagramEdge, Diagram, getDisplayProperty, isBundledEdge, isMateEdge } from "@/lib/diagram";
+import { buildDiagramIndex } from "@/lib/diagramIndex";
+import { Box, boundsOf, COMPONENT_WIDTH, edgeEndpoints, HEADER_HEIGHT, layoutNodes, NodeLayout, ROW_HEIGHT } from "@/lib/diagramGeometry";
+import type { ERCResult, Severity } from "@/lib/ercEngine";
+
+interface Selection {
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+const SEVERITY_RANK: Record<Severity, number> = { info: 1, warning: 2, error: 3 };
+const SEVERITY_COLOR: Record<Severity, string> = { error: "#dc2626", warning: "#ca8a04", info: "#0891b2" };
+const SELECTED_COLOR = "#2563eb";
+const WIRE_COLOR = "#4b5563";
+const PADDING = 60;
+
+
+function pad(box: Box, minWidth = 320, minHeight = 220): Box {
+  const width = Math.max(box.width + PADDING * 2, minWidth);
+  const height = Math.max(box.height + PADDING * 2, minHeight);
+  return { x: box.x + box.width / 2 - width / 2, y: box.y + box.height / 2 - height / 2, width, height };
+}
+
+function touches(result: ERCResult, selection: Selection): boolean {
+  return (
+    !!result.nodeIds?.some(id => selection.nodeIds.includes(id)) ||
+    !!result.edgeIds?.some(id => selection.edgeIds.includes(id))
+  );
+}
+
+
+// rendered diagram with results colored by severity; click an element to see its results,
+// click a result to select and zoom to what it names
+export default function DiagramView({ diagram, results }: { diagram: Diagram; results: ERCResult[] }) {
+  const layouts = useMemo(() => layoutNodes(diagram), [diagram]);
+  const index = useMemo(() => buildDiagramIndex(diagram), [diagram]);
+  const cableIds = useMemo(() => new Set(index.cables.map(e => e.id)), [index]);
+
+  // worst severity per element id
+  const severities = useMemo(() => {
+    const map = new Map<string, Severity>();
+    for (const r of results) {
+      for (const id of [...(r.nodeIds || []), ...(r.edgeIds || [])]) {
+        const current = map.get(id);
+        if (!current || SEVERITY_RANK[r.type] > SEVERITY_RANK[current]) map.set(id, r.type);
+      }
+    }
+    return map;
+  }, [results]);
+
+  const fitAll = useMemo(
+    () => pad(boundsOf(diagram.nodes.map(n => n.id), [], diagram, layouts) ?? { x: 0, y: 0, width: 0, height: 0 }),
+    [diagram, layouts]
+  );
+
+  const [view, setView] = useState<Box>(fitAll);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [shownDiagram, setShownDiagram] = useState(diagram);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ x: number; y: number; view: Box } | null>(null);
+
+  // a new diagram resets the view
+  if (shownDiagram !== diagram) {
+    setShownDiagram(diagram);
+    setView(fitAll);
+    setSelection(null);
+  }
+
+  // wheel zoom around the cursor (native listener: React's wheel handler is passive)
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const factor = e.deltaY > 0 ? 1.15 : 1 / 1.15;
+      setView(v => {
+        const cx = v.x + ((e.clientX - rect.left) / rect.width) * v.width;
+        const cy = v.y + ((e.clientY - rect.top) / rect.height) * v.height;
+        return { x: cx - (cx - v.x) * factor, y: cy - (cy - v.y) * factor, width: v.width * factor, height: v.height * factor };
+      });
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, []);
+
+  function zoomTo(nodeIds: string[], edgeIds: string[]) {
+    const box = boundsOf(nodeIds, edgeIds, diagram, layouts);
+    if (box) setView(pad(box));
+  }
+
+  function selectResult(result: ERCResult) {
+    const sel = { nodeIds: result.nodeIds || [], edgeIds: result.edgeIds || [] };
+    setSelection(sel);
+    zoomTo(sel.nodeIds, sel.edgeIds);
+  }
+
+  function handleMouseDown(e: MouseEvent<SVGSVGElement>) {
+    drag.current = { x: e.clientX, y: e.clientY, view };
+  }
+
+  function handleMouseMove(e: MouseEvent<SVGSVGElement>) {
+    const start = drag.current;
+    const svg = svgRef.current;
+    if (!start || !svg) return;
+    const rect = svg.getBoundingClientRect();
+    const scale = Math.max(start.view.width / rect.width, start.view.height / rect.height);
+    setView({ ...start.view, x: start.view.x - (e.clientX - start.x) * scale, y: start.view.y - (e.clientY - start.y) * scale });
+  }
+
+  const isSelected = (kind: "node" | "edge", id: string) =>
+    !!selection && (kind === "node" ? selection.nodeIds : selection.edgeIds).includes(id);
+
+  const colorOf = (kind: "node" | "edge", id: string, fallback: string) => {
+    if (isSelected(kind, id)) return SELECTED_COLOR;
+    const severity = severities.get(id);
+    return severity ? SEVERITY_COLOR[severity] : fallback;
+  };
+
+  function renderEdge(edge: DiagramEdge) {
+    const ends = edgeEndpoints(edge, layouts);
+    const color = colorOf("edge", edge.id, WIRE_COLOR);
+    const selected = isSelected("edge", edge.id);
+    const select = (e: MouseEvent) => {
+      e.stopPropagation();
+      setSelection({ nodeIds: [], edgeIds: [edge.id] });
+    };
+
+    // floating edge: a stub from the node it hangs from, with an open end
+    if (!ends) {
+      const nodeId = edge.source || edge.target;
+      const layout = nodeId ? layouts.get(nodeId) : undefined;
+      if (!layout) return null;
+      const handle = edge.source ? edge.sourceHandle : edge.targetHandle;
+      const y = layout.y + (handle ? layout.handles.get(handle) ?? layout.height / 2 : layout.height / 2);
+      const x = layout.x + layout.width;
+      return (
+        <g key={edge.id} onClick={select} className="cursor-pointer">
+          <line x1={x} y1={y} x2={x + 50} y2={y} stroke={color} strokeWidth={selected ? 3 : 2} strokeDasharray="4 3" />
+          <circle cx={x + 50} cy={y} r={4} fill="white" stroke={color} strokeWidth={2} />
+        </g>
+      );
+    }
+
+    const [a, b] = ends;
+    const dx = Math.max(Math.abs(b.x - a.x) / 2, 30) * (b.x >= a.x ? 1 : -1);
+    const d = `M ${a.x} ${a.y} C ${a.x + dx} ${a.y}, ${b.x - dx} ${b.y}, ${b.x} ${b.y}`;
+
+    let style: { width: number; dash?: string; opacity?: number } = { width: 2 };
+    if (cableIds.has(edge.id)) style = { width: 10, opacity: 0.25 };         // cable jacket
+    else if (isBundledEdge(edge)) style = { width: 1.5, dash: "6 3" };       // conductor inside a cable
+    else if (isMateEdge(edge)) style = { width: 3, dash: "2 2" };            // connector mate
+    const label = getDisplayProperty(edge, "reference_name");
+
+    return (
+      <g key={edge.id} onClick={select} className="cursor-pointer">
+        {/* wide transparent stroke makes thin wires easy to click */}
+        <path d={d} fill="none" stroke="transparent" strokeWidth={12} />
+        <path
+          d={d}
+          fill="none"
+          stroke={color}
+          strokeWidth={selected ? style.width + 1.5 : style.width}
+          strokeDasharray={style.dash}
+          strokeOpacity={style.opacity}
+        />
+        {label && !isBundledEdge(edge) && (
+          <text x={(a.x + b.x) / 2} y={(a.y + b.y) / 2 - 4} fontSize={10} textAnchor="middle" fill={color}>
+            {label}
+          </text>
+        )}
+      </g>
+    );
+  }
+
+  function renderNode(layout: NodeLayout) {
+    const { node, shape, x, y, width, height } = layout;
+    const color = colorOf("node", node.id, shape === "ghost" ? "#9ca3af" : "#374151");
+    const selected = isSelected("node", node.id);
+    const name = index.nodeName(node.id);
+    const select = (e: MouseEvent) => {
+      e.stopPropagation();
+      setSelection({ nodeIds: [node.id], edgeIds: [] });
+    };
+    const strokeWidth = selected ? 3 : severities.has(node.id) ? 2 : 1;
+
+    if (shape !== "component") {
+      const cx = x + width / 2;
+      const cy = y + height / 2;
+      return (
+        <g key={node.id} onClick={select} className="cursor-pointer">
+          {shape === "splice" ? (
+            <rect x={cx - 7} y={cy - 7} width={14} height={14} transform={`rotate(45 ${cx} ${cy})`} fill={color} />
+          ) : (
+            <circle
+              cx={cx}
+              cy={cy}
+              r={shape === "ghost" ? 10 : 7}
+              fill={shape === "ghost" ? "white" : color}
+              stroke={color}
+              strokeWidth={strokeWidth}
+              strokeDasharray={shape === "ghost" ? "3 2" : undefined}
+            />
+          )}
+          <text x={cx} y={y - 4} fontSize={10} textAnchor="middle" fill={color}>{name}</text>
+        </g>
+      );
+    }
+
+    const rows: { text: string; y: number; header: boolean }[] = [];
+    for (const port of node.data?.ports || []) {
+      rows.push({ text: port.name || port.id, y: layout.handles.get(port.id)!, header: true });
+      for (const pin of port.pins) {
+        rows.push({
+          text: `${pin.name || pin.id}${pin.function ? `  ${pin.function}` : ""}`,
+          y: layout.handles.get(pin.id)!,
+          header: false,
+        });
+      }
+    }
+
+    return (
+      <g key={node.id} onClick={select} className="cursor-pointer">
+        <rect x={x} y={y} width={width} height={height} rx={4} fill="white" stroke={color} strokeWidth={strokeWidth} />
+        <rect x={x} y={y} width={width} height={HEADER_HEIGHT - 4} rx={4} fill={color} fillOpacity={0.12} />
+        <text x={x + 8} y={y + 17} fontSize={12} fontWeight={600} fill={color}>{name}</text>
+        {rows.map((row, i) => (
+          <text
+            key={i}
+            x={x + (row.header ? 8 : 16)}
+            y={y + row.y + 4}
+            fontSize={row.header ? 10 : 9}
+            fontWeight={row.header ? 600 : 400}
+            fill="#4b5563"
+          >
+            {row.text.length > COMPONENT_WIDTH / 6 ? `${row.text.slice(0, COMPONENT_WIDTH / 6 - 1)}…` : row.text}
+          </text>
+        ))}
+        {rows.length === 0 && (
+          <text x={x + 8} y={y + HEADER_HEIGHT + ROW_HEIGHT / 2} fontSize={9} fill="#9ca3af">no ports</text>
+        )}
+      </g>
+    );
+  }
+
+  const listed = selection ? results.filter(r => touches(r, selection)) : results.filter(r => r.nodeIds?.length || r.edgeIds?.length);
+  const selectedName = selection
+    ? [
+        ...selection.nodeIds.map(id => index.nodeName(id)),
+        ...selection.edgeIds.map(id => index.edgeName(id)),
+      ].join(", ")
+    : "";
+
+  // cable jackets first so their conductors draw on top, nodes last
+  const edgeOrder = [...diagram.edges].sort(
+    (a, b) => Number(!cableIds.has(a.id)) - Number(!cableIds.has(b.id))
+  );
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-800">🗺️ Diagram</h3>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setView(v => ({ x: v.x + v.width * 0.1, y: v.y + v.height * 0.1, width: v.width * 0.8, height: v.height * 0.8 }))}
+            className="text-xs px-2 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+          >
+            ＋
+          </button>
+          <button
+            onClick={() => setView(v => ({ x: v.x - v.width * 0.1, y: v.y - v.height * 0.1, width: v.width * 1.2, height: v.height * 1.2 }))}
+            className="text-xs px-2 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+          >
+            －
+          </button>
+          <button
+            onClick={() => {
+              setView(fitAll);
+              setSelection(null);
+            }}
+            className="text-xs px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+          >
+            Fit
+          </button>
+        </div>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+        className="w-full h-[480px] border border-gray-100 rounded bg-gray-50 select-none cursor-grab active:cursor-grabbing"
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={() => (drag.current = null)}
+        onMouseLeave={() => (drag.current = null)}
+        onDoubleClick={() => setSelection(null)}
+      >
+        {edgeOrder.map(renderEdge)}
+        {[...layouts.values()].map(renderNode)}
+      </svg>
+
+      <div className="flex gap-4 mt-2 text-xs text-gray-500">
+        <span><span className="text-red-600">■</span> error</span>
+        <span><span className="text-yellow-600">■</span> warning</span>
+        <span>- - - cable conductor</span>
+        <span>▬ cable jacket</span>
+        <span>◌ ghost node</span>
+        <span>double-click to clear selection</span>
+      </div>
+
+      <div className="mt-3">
+        <div className="text-sm font-medium text-gray-700 mb-1">
+          {selection ? `Results for ${selectedName || "selection"} (${listed.length})` : `Results on the diagram (${listed.length})`}
+        </div>
+        <ul className="max-h-48 overflow-y-auto text-sm space-y-1">
+          {listed.map((r, i) => (
+            <li key={i}>
+              <button onClick={() => selectResult(r)} className="text-left hover:underline">
+                <span className={r.type === "error" ? "text-red-600" : r.type === "warning" ? "text-yellow-600" : "text-cyan-600"}>
+                  {r.type.toUpperCase()}
+                </span>{" "}
+                <span className="text-gray-800">{r.message}</span>
+              </button>
+            </li>
+          ))}
+          {listed.length === 0 && <li className="text-gray-400">No results.</li>}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+import { useState } from "react";
+import type { ERCFix, ERCResult } from "@/lib/ercEngine";
+
+interface FixListProps {
+  results: ERCResult[];
+  appliedCount: number;                 // fixes applied since the diagram was pasted
+  onApply: (fixes: ERCFix[]) => void;   // patch the diagram and re-run the ERC
+  onDownload: () => void;               // save the (patched) diagram
+}
+
+
+// A result's key in the list: stays with the result when fixes applied above it drop out
+function resultKey(result: ERCResult): string {
+  return [result.ruleId, ...(result.nodeIds || []), ...(result.edgeIds || []), result.message].join("|");
+}
+
+
+// results with proposed fixes: preview the JSON patch, apply one, or apply the first fix of each
+export default function FixList({ results, appliedCount, onApply, onDownload }: FixListProps) {
+  const [preview, setPreview] = useState<string | null>(null); // `${resultKey}:${fix label}`
+  const fixable = results.filter(r => r.fixes && r.fixes.length > 0);
+  if (fixable.length === 0 && appliedCount === 0) return null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-800">
+          🔧 Fixes
+          {appliedCount > 0 && <span className="ml-2 text-xs text-green-700">{appliedCount} applied</span>}
+        </h3>
+        <div className="flex gap-2">
+          {fixable.length > 0 && (
+            <button
+              onClick={() => onApply(fixable.map(r => r.fixes![0]))}
+              className="text-xs px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition"
+            >
+              Apply all ({fixable.length})
+            </button>
+          )}
+          <button
+            onClick={onDownload}
+            className="text-xs px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+          >
+            ⬇ Diagram
+          </button>
+        </div>
+      </div>
+
+      {fixable.length === 0 && <p className="text-sm text-gray-500">No more fixes to apply.</p>}
+
+      <ul className="space-y-3 max-h-96 overflow-y-auto">
+        {fixable.map(result => (
+          <li key={resultKey(result)} className="text-sm border-b border-gray-100 pb-2">
+            <div className={result.type === "error" ? "text-red-700" : "text-yellow-700"}>{result.message}</div>
+            {result.fixes!.map(fix => {
+              const key = `${resultKey(result)}:${fix.label}`;
+              return (
+                <div key={fix.label} className="mt-1 ml-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-gray-800">{fix.label}</span>
+                    <button
+                      onClick={() => setPreview(preview === key ? null : key)}
+                      className="text-xs text-blue-600 hover:text-blue-700"
+                    >
+                      {preview === key ? "Hide" : "Preview"}
+                    </button>
+                    <button onClick={() => onApply([fix])} className="text-xs text-blue-600 hover:text-blue-700">
+                      Apply
+                    </button>
+                  </div>
+                  {preview === key && (
+                    <pre className="mt-1 p-2 bg-gray-50 rounded text-xs text-gray-700 overflow-x-auto">
+                      {JSON.stringify(fix.patch, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              );
+            })}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+import { useMemo, useState } from "react";
+import type { Diagram } from "@/lib/diagram";
+import { buildWireList, wireListToCsv } from "@/lib/wireList";
+import { bomToCsv, buildBom } from "@/lib/bom";
+import { buildHarnessSummary, harnessSummaryToCsv } from "@/lib/harnessSummary";
+import { downloadFile } from "@/lib/download";
+import { formatLength } from "@/lib/units";
+
+type Tab = "wireList" | "bom" | "summary";
+
+const CELL = "border border-gray-200 px-2 py-1 text-left align-top";
+
+
+// preview of the wire list, BOM and harness summary for the checked diagram, with CSV / JSON downloads
+export default function ManufacturingTables({ diagram }: { diagram: Diagram }) {
+  const [tab, setTab] = useState<Tab>("wireList");
+  const wireList = useMemo(() => buildWireList(diagram), [diagram]);
+  const bom = useMemo(() => buildBom(diagram), [diagram]);
+  const summary = useMemo(() => buildHarnessSummary(diagram), [diagram]);
+
+  function handleDownload(format: "csv" | "json") {
+    const name = { wireList: "wire-list", bom: "bom", summary: "harness-summary" }[tab];
+    if (format === "csv") {
+      const csv = tab === "wireList" ? wireListToCsv(wireList) : tab === "bom" ? bomToCsv(bom) : harnessSummaryToCsv(summary);
+      downloadFile(`${name}.csv`, csv, "text/csv");
+    } else {
+      const data = tab === "wireList" ? wireList : tab === "bom" ? bom : summary;
+      downloadFile(`${name}.json`, JSON.stringify(data, null, 2), "application/json");
+    }
+  }
+
+  const tabClass = (t: Tab) =>
+    `text-sm px-3 py-1 rounded ${tab === t ? "bg-blue-600 text-white" : "bg-gray-100 text-gray-700 hover:bg-gray-200"}`;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex gap-2">
+          <button onClick={() => setTab("wireList")} className={tabClass("wireList")}>
+            Wire List ({wireList.length})
+          </button>
+          <button onClick={() => setTab("bom")} className={tabClass("bom")}>
+            BOM ({bom.length})
+          </button>
+          <button onClick={() => setTab("summary")} className={tabClass("summary")}>
+            Summary
+          </button>
+        </div>
+        <div className="flex gap-2">
+          {(["csv", "json"] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleDownload(format)}
+              className="text-xs px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition"
+            >
+              ⬇ {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-h-96 overflow-auto">
+        {tab === "wireList" ? (
+          <table className="w-full text-xs text-gray-800 border-collapse">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Wire", "From", "To", "Color", "Gauge", "Length", "Cable"].map(h => (
+                  <th key={h} className={CELL}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {wireList.map(row => (
+                <tr key={row.edgeId}>
+                  <td className={CELL}>{row.wire}</td>
+                  <td className={CELL}>{[row.from.component, row.from.port, row.from.pin].filter(Boolean).join(" / ") || "—"}</td>
+                  <td className={CELL}>{[row.to.component, row.to.port, row.to.pin].filter(Boolean).join(" / ") || "—"}</td>
+                  <td className={CELL}>{row.color}</td>
+                  <td className={CELL}>{row.gauge}</td>
+                  <td className={CELL}>{row.length}</td>
+                  <td className={CELL}>{row.cable}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : tab === "bom" ? (
+          <table className="w-full text-xs text-gray-800 border-collapse">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Kind", "Part", "Qty", "Total Length", "References"].map(h => (
+                  <th key={h} className={CELL}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {bom.map(line => (
+                <tr key={`${line.kind}|${line.partName}`}>
+                  <td className={CELL}>{line.kind}</td>
+                  <td className={CELL}>{line.partName}</td>
+                  <td className={CELL}>{line.quantity}</td>
+                  <td className={CELL}>
+                    {line.totalLengthMm === null ? "" : formatLength(line.totalLengthMm)}
+                    {line.missingLengths > 0 && (
+                      <span className="text-yellow-600"> ({line.missingLengths} without length)</span>
+                    )}
+                  </td>
+                  <td className={CELL}>{line.references.join(", ")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <table className="w-full text-xs text-gray-800 border-collapse">
+            <thead className="bg-gray-50">
+              <tr>
+                {["", "Count", "Total Length", "Copper"].map(h => (
+                  <th key={h} className={CELL}>{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <SummaryRow
+                label="All wires"
+                count={summary.wires}
+                lengthMm={summary.wireLengthMm}
+                missing={summary.wiresWithoutLength}
+                grams={summary.copperGrams}
+                bold
+              />
+              <SummaryRow
+                label="Cables"
+                count={summary.cables}
+                lengthMm={summary.cableLengthMm}
+                missing={summary.cablesWithoutLength}
+                grams={null}
+                bold
+              />
+              {summary.byGauge.map(g => (
+                <SummaryRow
+                  key={g.gauge}
+                  label={`${g.gauge} wire`}
+                  count={g.wires}
+                  lengthMm={g.lengthMm}
+                  missing={g.missingLengths}
+                  grams={g.copperGrams}
+                />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+
+function SummaryRow({ label, count, lengthMm, missing, grams, bold }: {
+  label: string;
+  count: number;
+  lengthMm: number;
+  missing: number;
+  grams: number | null;
+  bold?: boolean;
+}) {
+  return (
+    <tr className={bold ? "font-semibold" : undefined}>
+      <td className={CELL}>{label}</td>
+      <td className={CELL}>{count}</td>
+      <td className={CELL}>
+        {formatLength(lengthMm)}
+        {missing > 0 && <span className="text-yellow-600"> ({missing} without length)</span>}
+      </td>
+      <td className={CELL}>{grams === null ? "—" : `${grams.toFixed(1)} g`}</td>
+    </tr>
+  );
+}
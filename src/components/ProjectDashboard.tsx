@@ -0,0 +1,213 @@
+"use client";
+import { ChangeEvent, useMemo, useState } from "react";
+import { ERCOptions, getRuleRegistry } from "@/lib/ercEngine";
+import { checkProject, ProjectFileResult, ProjectReport, readProjectFiles } from "@/lib/project";
+import { getRuleInfo, listRules } from "@/lib/reporters/format";
+import { downloadFile } from "@/lib/download";
+import { toCsv } from "@/lib/csv";
+
+interface ProjectDashboardProps {
+  options: ERCOptions;                            // same profile, waivers and matrix as the page
+  onOpen: (file: ProjectFileResult) => void;      // load one file into the single-diagram view
+}
+
+const CELL = "border border-gray-200 px-2 py-1 text-left align-top";
+
+
+// project mode: upload many diagrams (or zips of them), check them all, and show per-file
+// counts worst first, the most frequent rules and the cross-file results
+export default function ProjectDashboard({ options, onOpen }: ProjectDashboardProps) {
+  const [project, setProject] = useState<ProjectReport | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rules = useMemo(() => listRules(getRuleRegistry(options.customRules)), [options.customRules]);
+
+  async function handleUpload(e: ChangeEvent<HTMLInputElement>) {
+    const uploads = [...(e.target.files || [])];
+    e.target.value = "";
+    if (uploads.length === 0) return;
+    try {
+      const files = await readProjectFiles(uploads);
+      if (files.length === 0) throw new Error("No JSON files found in the upload.");
+      setProject(checkProject(files, options));
+      setExpanded(null);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  function handleRecheck() {
+    if (project) setProject(checkProject(project.files.map(({ name, text }) => ({ name, text })), options));
+  }
+
+  function handleExport() {
+    if (!project) return;
+    const csv = toCsv(
+      ["File", "Errors", "Warnings", "Waived", "Status"],
+      project.files.map(f => [f.name, f.errors, f.warnings, f.waived, f.error ? `unreadable: ${f.error}` : f.errors > 0 ? "fail" : "pass"])
+    );
+    downloadFile("project-summary.csv", csv, "text/csv");
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-800">📁 Project</h3>
+        {project && (
+          <div className="flex gap-2">
+            <button onClick={handleRecheck} className="text-xs px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition">
+              Re-run
+            </button>
+            <button onClick={handleExport} className="text-xs px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition">
+              ⬇ CSV
+            </button>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-2">Check several diagram files (or .zip archives of them) at once.</p>
+      <input
+        type="file"
+        multiple
+        accept=".json,.zip,application/json,application/zip"
+        onChange={handleUpload}
+        className="block w-full text-xs text-gray-600"
+      />
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {project && (
+        <div className="mt-4 space-y-4">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <span className="text-gray-800">{project.totals.files} file(s)</span>
+            <span className="text-red-600 font-semibold">{project.totals.errors} error(s)</span>
+            <span className="text-yellow-600 font-semibold">{project.totals.warnings} warning(s)</span>
+            {project.totals.waived > 0 && <span className="text-gray-500">{project.totals.waived} waived</span>}
+            {project.totals.unreadable > 0 && <span className="text-red-600">{project.totals.unreadable} unreadable</span>}
+            <span className="text-gray-500">{project.files.filter(f => f.report && f.errors === 0).length} passing</span>
+          </div>
+
+          <div className="max-h-96 overflow-auto">
+            <table className="w-full text-xs text-gray-800 border-collapse">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={CELL}>File</th>
+                  <th className={CELL}>Errors</th>
+                  <th className={CELL}>Warnings</th>
+                  <th className={CELL}>Waived</th>
+                  <th className={CELL}></th>
+                </tr>
+              </thead>
+              <tbody>
+                {project.files.map(file => (
+                  <FileRow
+                    key={file.name}
+                    file={file}
+                    expanded={expanded === file.name}
+                    onToggle={() => setExpanded(expanded === file.name ? null : file.name)}
+                    onOpen={() => onOpen(file)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {project.ruleCounts.length > 0 && (
+            <div>
+              <h4 className="text-sm font-semibold text-gray-800 mb-1">Most common rules</h4>
+              <table className="w-full text-xs text-gray-800 border-collapse">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={CELL}>Rule</th>
+                    <th className={CELL}>Results</th>
+                    <th className={CELL}>Files</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {project.ruleCounts.slice(0, 10).map(c => (
+                    <tr key={c.ruleId}>
+                      <td className={CELL}>
+                        {getRuleInfo(c.ruleId, rules).label} <span className="text-gray-400">{c.ruleId}</span>
+                      </td>
+                      <td className={CELL}>{c.count}</td>
+                      <td className={CELL}>{c.files}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-800 mb-1">Cross-file checks</h4>
+            {project.results.length === 0 ? (
+              <p className="text-xs text-gray-500">✅ No cross-file problems.</p>
+            ) : (
+              <ul className="space-y-1 text-xs">
+                {project.results.map((r, i) => (
+                  <li key={i} className={r.type === "error" ? "text-red-700" : "text-yellow-700"}>
+                    {r.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+
+function FileRow({ file, expanded, onToggle, onOpen }: {
+  file: ProjectFileResult;
+  expanded: boolean;
+  onToggle: () => void;
+  onOpen: () => void;
+}) {
+  return (
+    <>
+      <tr className="cursor-pointer hover:bg-gray-50" onClick={onToggle}>
+        <td className={CELL}>
+          {expanded ? "▾" : "▸"} {file.name}
+        </td>
+        {file.error ? (
+          <td className={`${CELL} text-red-600`} colSpan={3}>Unreadable: {file.error}</td>
+        ) : (
+          <>
+            <td className={`${CELL} ${file.errors > 0 ? "text-red-600 font-semibold" : ""}`}>{file.errors}</td>
+            <td className={`${CELL} ${file.warnings > 0 ? "text-yellow-600 font-semibold" : ""}`}>{file.warnings}</td>
+            <td className={CELL}>{file.waived}</td>
+          </>
+        )}
+        <td className={CELL}>
+          <button
+            onClick={e => {
+              e.stopPropagation();
+              onOpen();
+            }}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            Open
+          </button>
+        </td>
+      </tr>
+      {expanded && file.report && (
+        <tr>
+          <td className={CELL} colSpan={5}>
+            {file.report.results.length === 0 ? (
+              <span className="text-green-700">✅ No ERC errors found!</span>
+            ) : (
+              <ul className="space-y-1">
+                {file.report.results.map((r, i) => (
+                  <li key={i} className={r.type === "error" ? "text-red-700" : r.type === "warning" ? "text-yellow-700" : "text-blue-700"}>
+                    <span className="text-gray-400">[{r.ruleId}]</span> {r.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,248 @@
+"use client";
+import { ChangeEvent, useState } from "react";
+import type { ERCParamValue, ERCRule, Severity } from "@/lib/ercEngine";
+import {
+  BUILTIN_PROFILES,
+  deleteProfile,
+  getRuleSeverity,
+  isRuleEnabled,
+  listProfiles,
+  loadSavedProfiles,
+  parseRuleProfiles,
+  RuleProfile,
+  saveProfile,
+  updateRuleSetting,
+} from "@/lib/ruleProfiles";
+import { downloadFile } from "@/lib/download";
+
+interface RuleProfilePanelProps {
+  profile: RuleProfile;                       // the working profile, unsaved edits included
+  onChange: (profile: RuleProfile) => void;
+  rules: ERCRule[];                           // the built-in rules and any custom ones
+}
+
+const SEVERITY_CLASS: Record<Severity, string> = {
+  error: "text-red-600",
+  warning: "text-yellow-600",
+  info: "text-blue-600",
+};
+
+const INPUT = "border border-gray-300 rounded px-1 py-0.5 text-xs text-gray-800";
+
+
+// Text shown in a parameter's input, and the value read back from it
+// (lists as "a, b", maps as "KEY=value, KEY=value")
+function paramText(value: ERCParamValue): string {
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "object") return Object.entries(value).map(([k, v]) => `${k}=${v}`).join(", ");
+  return String(value);
+}
+
+function parseParam(text: string, fallback: ERCParamValue): ERCParamValue {
+  const items = text.split(",").map(s => s.trim()).filter(Boolean);
+  if (Array.isArray(fallback)) return items;
+  if (typeof fallback === "object") {
+    const entries = items.map(item => item.split("=", 2).map(s => s.trim())).filter(([k, v]) => k && v);
+    return Object.fromEntries(entries);
+  }
+  if (typeof fallback === "boolean") return text === "true";
+  if (typeof fallback === "number") return text.trim() === "" || Number.isNaN(Number(text)) ? fallback : Number(text);
+  return text;
+}
+
+
+// rule selection as a named profile: pick, edit, save, import and export profiles;
+// each rule can be switched off, given another severity and have its parameters set
+export default function RuleProfilePanel({ profile, onChange, rules }: RuleProfilePanelProps) {
+  // only rendered on the client (the page waits for the stored profile), so storage is safe here
+  const [saved, setSaved] = useState<RuleProfile[]>(() => loadSavedProfiles(rules));
+  const [saveAs, setSaveAs] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const profiles = listProfiles(saved);
+  const stored = profiles.find(p => p.name === profile.name);
+  const modified = !stored || JSON.stringify(stored) !== JSON.stringify(profile);
+  const isSaved = saved.some(p => p.name === profile.name);
+  const enabledCount = rules.filter(r => isRuleEnabled(profile, r.id)).length;
+
+  function handleSave(name: string) {
+    const next = { ...profile, name };
+    setSaved(saveProfile(next, rules));
+    onChange(next);
+    setSaveAs("");
+  }
+
+  function handleDelete() {
+    setSaved(deleteProfile(profile.name, rules));
+    onChange(BUILTIN_PROFILES.find(p => p.name === profile.name) ?? BUILTIN_PROFILES[0]);
+  }
+
+  async function handleImport(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const imported = parseRuleProfiles(JSON.parse(await file.text()), rules);
+      let next = saved;
+      for (const p of imported) next = saveProfile(p, rules);
+      setSaved(next);
+      onChange(imported[0]);
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  function toggleAll() {
+    const enable = enabledCount !== rules.length;
+    onChange(rules.reduce((p, rule) => updateRuleSetting(p, rule, { enabled: enable }), profile));
+  }
+
+  function setParam(rule: ERCRule, key: string, text: string) {
+    const params = { ...rule.params, ...profile.rules[rule.id]?.params, [key]: parseParam(text, rule.params![key]) };
+    onChange(updateRuleSetting(profile, rule, { params }));
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <div className="mb-3">
+        <div className="flex items-center gap-2">
+          <h2 className="font-semibold text-gray-800">Profile</h2>
+          <select
+            value={profile.name}
+            onChange={e => onChange(profiles.find(p => p.name === e.target.value)!)}
+            className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm text-gray-800"
+          >
+            {!stored && <option value={profile.name}>{profile.name}</option>}
+            {profiles.map(p => (
+              <option key={p.name} value={p.name}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        {profile.description && <p className="text-xs text-gray-500 mt-1">{profile.description}</p>}
+        {modified && <p className="text-xs text-yellow-700 mt-1">Unsaved changes</p>}
+
+        <div className="flex flex-wrap gap-2 items-center mt-2 text-xs">
+          {modified && (
+            <button onClick={() => handleSave(profile.name)} className="text-blue-600 hover:text-blue-700">
+              Save
+            </button>
+          )}
+          <input
+            className={INPUT}
+            placeholder="Save as…"
+            value={saveAs}
+            onChange={e => setSaveAs(e.target.value)}
+            onKeyDown={e => e.key === "Enter" && saveAs.trim() && handleSave(saveAs.trim())}
+          />
+          <button
+            onClick={() => handleSave(saveAs.trim())}
+            disabled={!saveAs.trim()}
+            className="text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+          >
+            Save as
+          </button>
+          {isSaved && (
+            <button onClick={handleDelete} className="text-red-600 hover:text-red-700">
+              Delete
+            </button>
+          )}
+          <button
+            onClick={() => downloadFile(`${profile.name.replace(/\W+/g, "-")}.profile.json`, JSON.stringify(profile, null, 2), "application/json")}
+            className="text-blue-600 hover:text-blue-700"
+          >
+            ⬇ Export
+          </button>
+          <label className="text-blue-600 hover:text-blue-700 cursor-pointer">
+            Import
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </label>
+        </div>
+        {error && <p className="mt-2 text-xs text-red-600 whitespace-pre-line">{error}</p>}
+      </div>
+
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold text-gray-800">Select Checks</h2>
+        <button onClick={toggleAll} className="text-xs text-blue-600 hover:text-blue-700">
+          {enabledCount === rules.length ? "Deselect All" : "Select All"}
+        </button>
+      </div>
+      <div className="space-y-2 max-h-96 overflow-y-auto">
+        {rules.map(rule => {
+          const enabled = isRuleEnabled(profile, rule.id);
+          const severity = getRuleSeverity(profile, rule);
+          const setting = profile.rules[rule.id];
+          const params = { ...rule.params, ...setting?.params };
+          return (
+            <div key={rule.id} className="flex items-start gap-2 hover:bg-gray-50 p-2 rounded">
+              <input
+                type="checkbox"
+                checked={enabled}
+                onChange={() => onChange(updateRuleSetting(profile, rule, { enabled: !enabled }))}
+                className="mt-1 cursor-pointer"
+              />
+              <div className="flex-1">
+                <div className="text-sm font-medium text-gray-800">
+                  {rule.label}
+                  <select
+                    value={severity}
+                    onChange={e => onChange(updateRuleSetting(profile, rule, { severity: e.target.value as Severity }))}
+                    className={`ml-2 text-xs bg-transparent ${SEVERITY_CLASS[severity]}`}
+                  >
+                    {(["error", "warning", "info"] as const).map(s => (
+                      <option key={s} value={s}>{s}</option>
+                    ))}
+                  </select>
+                  <span className="ml-1 text-xs text-gray-400">· {rule.category}</span>
+                </div>
+                <div className="text-xs text-gray-500">{rule.description}</div>
+                <details className="mt-1 text-xs text-gray-600">
+                  <summary className="cursor-pointer text-gray-400">Settings</summary>
+                  <div className="mt-1 space-y-1">
+                    {Object.entries(params).map(([key, value]) => (
+                      <label key={key} className="flex items-center gap-2">
+                        <span>{key}</span>
+                        {typeof value === "boolean" ? (
+                          <input type="checkbox" checked={value} onChange={e => setParam(rule, key, String(e.target.checked))} />
+                        ) : typeof value === "object" ? (
+                          // lists and maps are committed on blur, so typing a comma isn't undone mid-edit
+                          <input
+                            key={paramText(value)}
+                            className={INPUT}
+                            defaultValue={paramText(value)}
+                            onBlur={e => setParam(rule, key, e.target.value)}
+                          />
+                        ) : (
+                          <input
+                            className={INPUT}
+                            type={typeof value === "number" ? "number" : "text"}
+                            value={paramText(value)}
+                            onChange={e => setParam(rule, key, e.target.value)}
+                          />
+                        )}
+                      </label>
+                    ))}
+                    <label className="flex items-center gap-2">
+                      <span>Ignore node types</span>
+                      <input
+                        key={(setting?.ignoreNodeTypes || []).join(", ")}
+                        className={INPUT}
+                        placeholder="e.g. testPoint, ghostNode"
+                        defaultValue={(setting?.ignoreNodeTypes || []).join(", ")}
+                        onBlur={e =>
+                          onChange(updateRuleSetting(profile, rule, {
+                            ignoreNodeTypes: e.target.value.split(",").map(s => s.trim()).filter(Boolean),
+                          }))
+                        }
+                      />
+                    </label>
+                  </div>
+                </details>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
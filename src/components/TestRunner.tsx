@@ -0,0 +1,314 @@
+"use client";
+import { ChangeEvent, useState } from "react";
+import type { TestInstruction } from "@/lib/ercEngine";
+import { formatLimits } from "@/lib/testPlan";
+import {
+  deleteRun,
+  loadRuns,
+  parseTestRun,
+  recordMeasurement,
+  saveRun,
+  signOffRun,
+  startRun,
+  summarizeRun,
+  testRunToCsv,
+  TestRun,
+  Verdict,
+} from "@/lib/testRecord";
+import { renderTestRecord } from "@/lib/reporters";
+import { downloadFile } from "@/lib/download";
+
+interface TestRunnerProps {
+  tests: TestInstruction[];   // the generated plan for the diagram on screen
+  diagramHash: string;        // hashDiagram() of that diagram
+}
+
+const INPUT = "border border-gray-300 rounded px-2 py-1 text-sm text-gray-800";
+const BUTTON = "text-xs px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 transition";
+const CELL = "border border-gray-200 px-2 py-1 text-left align-top";
+
+const VERDICT_CLASS: Record<Verdict, string> = {
+  pass: "text-green-700 font-semibold",
+  fail: "text-red-700 font-semibold",
+  pending: "text-gray-400",
+};
+
+
+// bench execution of the generated test plan: one step at a time, readings judged against
+// the step's limits, runs saved in browser storage and exported as a signed-off record
+export default function TestRunner({ tests, diagramHash }: TestRunnerProps) {
+  const [runs, setRuns] = useState<TestRun[]>(() => loadRuns());
+  const [run, setRun] = useState<TestRun | null>(null);
+  const [details, setDetails] = useState({ operator: "", revision: "", serial: "" });
+  const [stepIndex, setStepIndex] = useState(0);
+  const [reading, setReading] = useState("");
+  const [note, setNote] = useState("");
+  const [signer, setSigner] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  if (tests.length === 0 && !run) return null;
+
+  // every change is saved straight away, so a closed tab loses nothing
+  function update(next: TestRun) {
+    setRun(next);
+    setRuns(saveRun(next));
+    setError(null);
+  }
+
+  function openRun(next: TestRun) {
+    setRun(next);
+    selectStep(next, 0);
+    setError(null);
+  }
+
+  function selectStep(current: TestRun, index: number) {
+    const m = current.measurements[current.steps[index]?.id];
+    setStepIndex(index);
+    setReading(m?.raw ?? "");
+    setNote(m?.note ?? "");
+  }
+
+  function handleRecord(verdict?: Verdict) {
+    if (!run) return;
+    try {
+      const next = recordMeasurement(run, run.steps[stepIndex].id, reading, { verdict, note });
+      update(next);
+      const { value } = next.measurements[run.steps[stepIndex].id];
+      if (value === null && !verdict) setError(`Could not read "${reading}" as ${run.steps[stepIndex].unit}.`);
+      // move on once the step has a verdict
+      if (next.measurements[run.steps[stepIndex].id].verdict !== "pending" && stepIndex < run.steps.length - 1) {
+        selectStep(next, stepIndex + 1);
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function handleSignOff() {
+    if (!run) return;
+    try {
+      update(signOffRun(run, signer));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  async function handleLoad(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const loaded = parseTestRun(JSON.parse(await file.text()));
+      setRuns(saveRun(loaded));
+      openRun(loaded);
+    } catch (err) {
+      setError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  const thisRevision = runs.filter(r => r.diagramHash === diagramHash);
+  const otherRevisions = runs.length - thisRevision.length;
+
+  if (!run) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+        <h3 className="font-semibold text-gray-800 mb-3">🧪 Test Execution</h3>
+        <div className="flex flex-wrap gap-2 items-center">
+          <input
+            className={INPUT}
+            placeholder="Operator"
+            value={details.operator}
+            onChange={e => setDetails({ ...details, operator: e.target.value })}
+          />
+          <input
+            className={INPUT}
+            placeholder="Drawing revision (optional)"
+            value={details.revision}
+            onChange={e => setDetails({ ...details, revision: e.target.value })}
+          />
+          <input
+            className={INPUT}
+            placeholder="Serial (optional)"
+            value={details.serial}
+            onChange={e => setDetails({ ...details, serial: e.target.value })}
+          />
+          <button
+            onClick={() => openRun(startRun(tests, diagramHash, { ...details, operator: details.operator.trim() }))}
+            disabled={!details.operator.trim()}
+            className="text-xs px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition disabled:bg-gray-400"
+          >
+            Start run ({tests.length} steps)
+          </button>
+        </div>
+
+        <div className="mt-3 text-xs text-gray-600">
+          Load a record: <input type="file" accept=".json,application/json" onChange={handleLoad} className="text-xs" />
+        </div>
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+        {thisRevision.length > 0 && (
+          <ul className="mt-3 space-y-1 text-sm">
+            {thisRevision.map(r => {
+              const s = summarizeRun(r);
+              return (
+                <li key={r.id} className="flex items-center gap-2">
+                  <span className="text-gray-800">
+                    {r.startedAt.slice(0, 16).replace("T", " ")} · {r.operator}
+                    {r.serial && ` · S/N ${r.serial}`}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {s.passed} pass · {s.failed} fail · {s.pending} pending{r.signedOffAt && " · signed off"}
+                  </span>
+                  <button onClick={() => openRun(r)} className="text-xs text-blue-600 hover:text-blue-700">
+                    Open
+                  </button>
+                  <button onClick={() => setRuns(deleteRun(r.id))} className="text-xs text-red-600 hover:text-red-700">
+                    Delete
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {otherRevisions > 0 && (
+          <p className="mt-2 text-xs text-gray-500">{otherRevisions} saved run(s) belong to other diagram revisions.</p>
+        )}
+      </div>
+    );
+  }
+
+  const step = run.steps[stepIndex];
+  const summary = summarizeRun(run);
+  const locked = !!run.signedOffAt;
+  const fileBase = `test-record-${run.serial || run.id}`;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4 shadow-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-800">
+          🧪 Test Execution
+          <span className="ml-2 text-xs font-normal text-gray-500">
+            {run.operator}{run.serial && ` · S/N ${run.serial}`} · {summary.passed} pass · {summary.failed} fail ·{" "}
+            {summary.pending} pending
+          </span>
+        </h3>
+        <div className="flex gap-2">
+          <button onClick={() => downloadFile(`${fileBase}.json`, JSON.stringify(run, null, 2), "application/json")} className={BUTTON}>
+            ⬇ JSON
+          </button>
+          <button onClick={() => downloadFile(`${fileBase}.csv`, testRunToCsv(run), "text/csv")} className={BUTTON}>
+            ⬇ CSV
+          </button>
+          <button onClick={() => downloadFile(`${fileBase}.html`, renderTestRecord(run), "text/html")} className={BUTTON}>
+            ⬇ Record
+          </button>
+          <button onClick={() => setRun(null)} className={BUTTON}>
+            Close
+          </button>
+        </div>
+      </div>
+
+      {run.diagramHash !== diagramHash && (
+        <p className="mb-3 text-sm text-yellow-700">
+          ⚠️ This run was recorded against a different diagram revision (hash {run.diagramHash}); its steps may not match the diagram on screen.
+        </p>
+      )}
+
+      {step && (
+        <div className="border border-gray-200 rounded p-3 mb-3">
+          <div className="text-xs text-gray-500">
+            {step.id} · {step.category} · step {stepIndex + 1} of {run.steps.length}
+          </div>
+          <div className="text-sm text-gray-800 mt-1">{step.instruction}</div>
+          <div className="text-xs text-gray-600 mt-1">
+            Expected {step.expected} · limits {formatLimits(step)}
+          </div>
+          <div className="flex flex-wrap gap-2 items-center mt-2">
+            <input
+              className={INPUT}
+              placeholder={`Reading (${step.unit})`}
+              value={reading}
+              disabled={locked}
+              onChange={e => setReading(e.target.value)}
+              onKeyDown={e => e.key === "Enter" && handleRecord()}
+            />
+            <input
+              className={INPUT}
+              placeholder="Note"
+              value={note}
+              disabled={locked}
+              onChange={e => setNote(e.target.value)}
+            />
+            <button onClick={() => handleRecord()} disabled={locked || !reading.trim()} className={BUTTON}>
+              Record
+            </button>
+            <button onClick={() => handleRecord("pass")} disabled={locked} className="text-xs px-3 py-1 bg-green-100 text-green-800 rounded hover:bg-green-200 transition">
+              Pass
+            </button>
+            <button onClick={() => handleRecord("fail")} disabled={locked} className="text-xs px-3 py-1 bg-red-100 text-red-800 rounded hover:bg-red-200 transition">
+              Fail
+            </button>
+            <button onClick={() => selectStep(run, Math.max(stepIndex - 1, 0))} className="text-xs text-blue-600 hover:text-blue-700">
+              ◀ Prev
+            </button>
+            <button onClick={() => selectStep(run, Math.min(stepIndex + 1, run.steps.length - 1))} className="text-xs text-blue-600 hover:text-blue-700">
+              Next ▶
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+      <div className="max-h-72 overflow-auto">
+        <table className="w-full text-xs text-gray-800 border-collapse">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={CELL}>Step</th>
+              <th className={CELL}>Expected</th>
+              <th className={CELL}>Measured</th>
+              <th className={CELL}>Verdict</th>
+            </tr>
+          </thead>
+          <tbody>
+            {run.steps.map((s, i) => {
+              const m = run.measurements[s.id];
+              const verdict = m?.verdict ?? "pending";
+              return (
+                <tr key={s.id} onClick={() => selectStep(run, i)} className={`cursor-pointer ${i === stepIndex ? "bg-blue-50" : "hover:bg-gray-50"}`}>
+                  <td className={CELL}>{s.id}</td>
+                  <td className={CELL}>{s.expected}</td>
+                  <td className={CELL}>{m?.raw}</td>
+                  <td className={`${CELL} ${VERDICT_CLASS[verdict]}`}>
+                    {verdict}
+                    {m?.manual && <span className="ml-1 font-normal text-gray-400">(operator)</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex flex-wrap gap-2 items-center mt-3">
+        {locked ? (
+          <span className="text-sm text-green-700">
+            ✅ Signed off by {run.signedOffBy} on {run.signedOffAt!.slice(0, 16).replace("T", " ")}
+          </span>
+        ) : (
+          <>
+            <input className={INPUT} placeholder="Sign off as" value={signer} onChange={e => setSigner(e.target.value)} />
+            <button
+              onClick={handleSignOff}
+              disabled={summary.pending > 0 || !signer.trim()}
+              className="text-xs px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition disabled:bg-gray-400"
+            >
+              Sign off
+            </button>
+            {summary.pending > 0 && <span className="text-xs text-gray-500">{summary.pending} step(s) left</span>}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+// bill of materials: components rolled up by `part_name`, wires and cables by type
+// with their total length. conductors inside a cable are part of the cable and only
+// count as wire when they carry their own `part_name`
+
+import { Diagram, DiagramEdge, getDisplayProperty, isBundledEdge, isComponentNode, isSpliceNode } from "./diagram";
+import { buildDiagramIndex } from "./diagramIndex";
+import { getConductorLength } from "./connectivity";
+import { toCsv } from "./csv";
+import { formatLength } from "./units";
+
+export interface BomLine {
+  kind: "component" | "wire" | "cable";
+  partName: string;       // part_name, or a description built from gauge / color when there is none
+  quantity: number;       // number of components, wires or cable runs
+  totalLengthMm: number | null;  // wires and cables; null when no run has a readable length
+  missingLengths: number; // runs counted without a length
+  references: string[];   // reference names rolled into this line
+}
+
+const NO_PART_NAME = "(no part name)";
+
+
+// wires without a part number are grouped by what the assembler needs to pick them
+function wireType(edge: DiagramEdge): string {
+  const partName = getDisplayProperty(edge, "part_name")?.trim();
+  if (partName) return partName;
+  const gauge = getDisplayProperty(edge, "gauge")?.trim();
+  const color = getDisplayProperty(edge, "insulation")?.trim();
+  if (!gauge && !color) return NO_PART_NAME;
+  return [gauge || "unspecified gauge", color].filter(Boolean).join(" ") + " wire";
+}
+
+
+export function buildBom(diagram: Diagram): BomLine[] {
+  const index = buildDiagramIndex(diagram);
+  const lines = new Map<string, BomLine>();
+  const add = (kind: BomLine["kind"], partName: string, reference: string, lengthMm?: number | null) => {
+    const key = `${kind}|${partName}`;
+    const line = lines.get(key) ?? {
+      kind,
+      partName,
+      quantity: 0,
+      totalLengthMm: null,
+      missingLengths: 0,
+      references: [],
+    };
+    line.quantity++;
+    line.references.push(reference);
+    if (kind !== "component") {
+      if (lengthMm == null) line.missingLengths++;
+      else line.totalLengthMm = (line.totalLengthMm ?? 0) + lengthMm;
+    }
+    lines.set(key, line);
+  };
+
+  // splices aren't components, but they are parts to order
+  for (const node of diagram.nodes) {
+    if (!isComponentNode(node) && !isSpliceNode(node)) continue;
+    add("component", getDisplayProperty(node, "part_name")?.trim() || NO_PART_NAME, index.nodeName(node.id));
+  }
+
+  for (const cable of index.cables) {
+    const partName = getDisplayProperty(cable, "part_name")?.trim() || NO_PART_NAME;
+    add("cable", partName, index.edgeName(cable.id), getConductorLength(index, cable));
+  }
+
+  for (const edge of index.conductors) {
+    if (isBundledEdge(edge) && !getDisplayProperty(edge, "part_name")?.trim()) continue;
+    add("wire", wireType(edge), index.edgeName(edge.id), getConductorLength(index, edge));
+  }
+
+  const order = { component: 0, cable: 1, wire: 2 };
+  return [...lines.values()].sort(
+    (a, b) => order[a.kind] - order[b.kind] || a.partName.localeCompare(b.partName)
+  );
+}
+
+
+export function bomToCsv(lines: BomLine[]): string {
+  return toCsv(
+    ["Kind", "Part", "Quantity", "Total Length (mm)", "Total Length", "Runs Without Length", "References"],
+    lines.map(l => [
+      l.kind,
+      l.partName,
+      l.quantity,
+      l.totalLengthMm === null ? "" : +l.totalLengthMm.toFixed(1),
+      l.totalLengthMm === null ? "" : formatLength(l.totalLengthMm),
+      l.kind === "component" ? "" : l.missingLengths,
+      l.references.join(" "),
+    ])
+  );
+}
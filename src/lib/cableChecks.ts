@@ -0,0 +1,301 @@
+// cable and bundle checks: a cable is a jacket edge whose conductors are bundledEdges
+// naming it in `data.parent_id`; cables and loose wires pass through bundleNodes, where
+// the wire arriving at a handle continues on the edge leaving from the same handle
+//
+// a cable declares how many conductors it holds with a `conductors` display property,
+// or through its `part_name` ("M27500-22SB3T23", "22 AWG 4C", "2 pair"). shield and
+// drain conductors are recognised by name or insulation, or by landing on a SHIELD pin
+// (SHLD and DRAIN are its aliases), and are not counted
+
+import { DiagramEdge, getDisplayProperty, isBundledEdge, isBundleNode, isGhostNode, isMateEdge } from "./diagram";
+import { DiagramIndex, getParentCable } from "./diagramIndex";
+import type { Net } from "./connectivity";
+import type { ERCContext, ERCResult, ERCRule } from "./ercTypes";
+import { normalizeColor } from "./wireColors";
+
+export const CABLE_RULES: ERCRule[] = [
+  {
+    id: "cableParent",
+    label: "Cable Parents",
+    description: "Check that every bundled conductor's parent_id names a cable edge",
+    severity: "error",
+    category: "connectivity",
+    check: checkCableParents,
+  },
+  {
+    id: "cableConductorCount",
+    label: "Cable Conductor Count",
+    description: "Check that a cable holds as many conductors as it declares (or its part number implies)",
+    severity: "warning",
+    category: "metadata",
+    check: checkCableConductorCount,
+  },
+  {
+    id: "cableConductorColors",
+    label: "Cable Conductor Colors",
+    description: "Check that conductor insulation colors are unique within a cable",
+    severity: "warning",
+    category: "metadata",
+    check: checkCableConductorColors,
+  },
+  {
+    id: "cableEndpoints",
+    label: "Cable Endpoints",
+    description: "Check that each conductor ends on the components its cable connects",
+    severity: "error",
+    category: "connectivity",
+    check: checkCableEndpoints,
+  },
+  {
+    id: "cableShieldTermination",
+    label: "Shield Termination",
+    description: "Check that shield and drain conductors terminate on a pin",
+    severity: "warning",
+    category: "electrical",
+    params: { shieldNames: ["shield", "shld", "drain", "drn"] },
+    check: checkShieldTermination,
+  },
+  {
+    id: "bundlePassThrough",
+    label: "Bundle Pass-Through",
+    description: "Check that every wire entering a bundle node leaves it again",
+    severity: "error",
+    category: "connectivity",
+    check: checkBundlePassThrough,
+  },
+];
+
+// conductor counts written into common cable part numbers
+const PART_CONDUCTORS: [RegExp, (match: RegExpMatchArray) => number][] = [
+  [/M27500-[A-Z]?\d{2}[A-Z]{2}(\d)/i, m => Number(m[1])],      // M27500-22SB3T23: 3 conductors
+  [/\b(\d+)\s*-?\s*(?:pairs?|pr)\b/i, m => Number(m[1]) * 2],   // 2 pair, 4PR
+  [/\b(\d+)\s*(?:\/\s*c|c|-?\s*cond(?:uctors?)?)\b/i, m => Number(m[1])], // 4C, 4/C, 4 conductor
+];
+
+
+// `Conductor "W3" (white)` style name for messages
+function conductorName(index: DiagramIndex, edge: DiagramEdge): string {
+  const color = getDisplayProperty(edge, "insulation")?.trim();
+  return `"${index.edgeName(edge.id)}"${color ? ` (${color})` : ""}`;
+}
+
+
+// Test for shield and drain conductors: a SHIELD pin at either end, or one of the
+// rule's shieldNames in the conductor's name or insulation
+function shieldConductorTest(ctx: ERCContext): (edge: DiagramEdge) => boolean {
+  const param = ctx.params("cableShieldTermination").shieldNames;
+  const names = (Array.isArray(param) ? param : []).map(name => name.toLowerCase());
+  const onShieldPin = (handle: string | null | undefined) => !!handle && ctx.pinFunctions.get(handle) === "SHIELD";
+
+  return edge => {
+    if (onShieldPin(edge.sourceHandle) || onShieldPin(edge.targetHandle)) return true;
+    const words = [getDisplayProperty(edge, "reference_name"), getDisplayProperty(edge, "insulation")]
+      .flatMap(text => (text || "").toLowerCase().split(/[^a-z0-9]+/));
+    return names.some(name => words.includes(name));
+  };
+}
+
+
+// Declared conductor count of a cable and where it was read from, or null when it declares none
+function declaredConductors(cable: DiagramEdge): { count: number; source: string } | null {
+  const written = getDisplayProperty(cable, "conductors")?.trim();
+  if (written && /^\d+$/.test(written)) return { count: Number(written), source: "its conductors property" };
+
+  const partName = getDisplayProperty(cable, "part_name")?.trim();
+  if (!partName) return null;
+  for (const [pattern, count] of PART_CONDUCTORS) {
+    const match = partName.match(pattern);
+    if (match) return { count: count(match), source: `part ${partName}` };
+  }
+  return null;
+}
+
+
+// Check that parent_id names a cable: not the conductor itself, another conductor or a mate
+function checkCableParents({ diagram, index }: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+
+  for (const edge of diagram.edges) {
+    if (!isBundledEdge(edge)) continue;
+    const parent = getParentCable(index, edge);
+    if (!parent) continue; // missing or dangling parent_id is reported by the schema validation
+
+    const problem =
+      parent.id === edge.id ? "names itself" :
+      isBundledEdge(parent) ? `names conductor "${index.edgeName(parent.id)}", not a cable` :
+      isMateEdge(parent) ? `names connector mate "${index.edgeName(parent.id)}", not a cable` :
+      null;
+    if (!problem) continue;
+
+    results.push({
+      ruleId: "cableParent",
+      type: "error",
+      edgeIds: [edge.id, parent.id],
+      message: `Conductor ${conductorName(index, edge)} has a parent_id that ${problem}.`,
+    });
+  }
+
+  return results;
+}
+
+
+// Check each cable's conductor count (shields and drains aside) against what it declares
+function checkCableConductorCount(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const { index } = ctx;
+  const isShield = shieldConductorTest(ctx);
+
+  for (const cable of index.cables) {
+    const declared = declaredConductors(cable);
+    if (!declared) continue;
+    const conductors = (index.bundledByCable.get(cable.id) || []).filter(e => !isShield(e));
+    if (conductors.length === declared.count) continue;
+
+    results.push({
+      ruleId: "cableConductorCount",
+      type: "warning",
+      edgeIds: [cable.id, ...conductors.map(e => e.id)],
+      message:
+        `Cable "${index.edgeName(cable.id)}" has ${conductors.length} conductor(s), ` +
+        `but ${declared.source} calls for ${declared.count}.`,
+    });
+  }
+
+  return results;
+}
+
+
+// Check that no two conductors in a cable share an insulation color
+function checkCableConductorColors({ index }: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+
+  for (const cable of index.cables) {
+    const byColor = new Map<string, DiagramEdge[]>(); // normalized color → conductors
+    for (const edge of index.bundledByCable.get(cable.id) || []) {
+      const color = normalizeColor(getDisplayProperty(edge, "insulation"))?.toLowerCase();
+      if (!color) continue;
+      byColor.set(color, [...(byColor.get(color) || []), edge]);
+    }
+
+    for (const [color, edges] of byColor) {
+      if (edges.length < 2) continue;
+      results.push({
+        ruleId: "cableConductorColors",
+        type: "warning",
+        edgeIds: edges.map(e => e.id),
+        message:
+          `Cable "${index.edgeName(cable.id)}" has ${edges.length} ${color} conductors: ` +
+          `${edges.map(e => `"${index.edgeName(e.id)}"`).join(", ")}.`,
+      });
+    }
+  }
+
+  return results;
+}
+
+
+// Check that every conductor runs between the two nodes its cable connects
+function checkCableEndpoints({ index }: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  // ends that go nowhere are the floating bundled wire check's to report
+  const landed = (nodeId: string | undefined) => {
+    const node = nodeId ? index.nodesById.get(nodeId) : undefined;
+    return node && !isGhostNode(node) ? node.id : undefined;
+  };
+
+  for (const cable of index.cables) {
+    if (!landed(cable.source) || !landed(cable.target)) continue;
+    const cableEnds = [cable.source!, cable.target!];
+    const route = `${index.nodeName(cable.source!)} → ${index.nodeName(cable.target!)}`;
+
+    for (const edge of index.bundledByCable.get(cable.id) || []) {
+      const ends = [landed(edge.source), landed(edge.target)];
+      const stray = ends.filter((id): id is string => id !== undefined && !cableEnds.includes(id));
+      // both ends on one end of the cable (J1 → J1 in a J1 → J2 cable) is as wrong as a stray end
+      const folded = ends[0] && ends[0] === ends[1] && cable.source !== cable.target;
+      if (stray.length === 0 && !folded) continue;
+
+      const runs = ends.map(id => (id ? index.nodeName(id) : "(unconnected)")).join(" → ");
+      results.push({
+        ruleId: "cableEndpoints",
+        type: "error",
+        nodeIds: [...new Set([...cableEnds, ...stray])],
+        edgeIds: [edge.id, cable.id],
+        message: `Conductor ${conductorName(index, edge)} runs ${runs}, but its cable "${index.edgeName(cable.id)}" connects ${route}.`,
+      });
+    }
+  }
+
+  return results;
+}
+
+
+// Check that every shield or drain conductor reaches at least one pin
+function checkShieldTermination(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const { index, nets } = ctx;
+  const isShield = shieldConductorTest(ctx);
+
+  const netOfEdge = new Map<string, Net>();
+  for (const net of nets) {
+    for (const id of net.edgeIds) netOfEdge.set(id, net);
+  }
+
+  for (const edge of index.conductors) {
+    if (!isBundledEdge(edge) || !isShield(edge)) continue;
+    if ((netOfEdge.get(edge.id)?.pins.length ?? 0) > 0) continue;
+
+    const cable = getParentCable(index, edge);
+    results.push({
+      ruleId: "cableShieldTermination",
+      type: "warning",
+      edgeIds: [edge.id],
+      message:
+        `Shield/drain conductor ${conductorName(index, edge)}${cable ? ` in cable "${index.edgeName(cable.id)}"` : ""} ` +
+        "is not terminated — it reaches no pin.",
+    });
+  }
+
+  return results;
+}
+
+
+// Check that each bundle node passes wires straight through: at every handle, one wire
+// in and one out; handle-less ends pass through only as a single pair
+function checkBundlePassThrough({ diagram, index }: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const conductorIds = new Set(index.conductors.map(e => e.id));
+
+  for (const node of diagram.nodes) {
+    if (!isBundleNode(node)) continue;
+    const bundleName = index.nodeName(node.id);
+
+    // handle → conductors with an end there ("" for ends without a handle)
+    const byHandle = new Map<string, DiagramEdge[]>();
+    for (const edge of index.edgesByNode.get(node.id) || []) {
+      if (!conductorIds.has(edge.id)) continue;
+      for (const end of ["source", "target"] as const) {
+        if (edge[end] !== node.id) continue;
+        const handle = (end === "source" ? edge.sourceHandle : edge.targetHandle) || "";
+        byHandle.set(handle, [...(byHandle.get(handle) || []), edge]);
+      }
+    }
+
+    for (const [handle, edges] of byHandle) {
+      if (edges.length === 2) continue;
+      const names = edges.map(e => `"${index.edgeName(e.id)}"`).join(", ");
+      const at = handle ? `at handle ${handle}` : "without a handle";
+      results.push({
+        ruleId: "bundlePassThrough",
+        type: "error",
+        nodeIds: [node.id],
+        edgeIds: [...new Set(edges.map(e => e.id))],
+        message: edges.length === 1
+          ? `Wire ${names} enters bundle ${bundleName} ${at} but nothing leaves on the other side.`
+          : `${edges.length} wires meet in bundle ${bundleName} ${at} (${names}); a bundle passes one wire in to one wire out.`,
+      });
+    }
+  }
+
+  return results;
+}
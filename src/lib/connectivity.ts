@@ -0,0 +1,250 @@
+// net extraction: which pins are electrically joined by wires, cable conductors,
+// bundles and splices
+//
+// every edge end becomes a vertex, and each conductor joins its two ends:
+//   - component end  -> the pin it lands on (sourceHandle / targetHandle)
+//   - bundleNode end -> passes through: ends sharing the same handle are joined,
+//                       and a bundle with exactly two handle-less ends joins those
+//   - spliceNode end -> every wire on the splice is joined
+//   - ghostNode or missing end -> goes nowhere
+// a cable's parent edge is only the jacket; its bundledEdge children carry the current.
+// a mateEdge joins two ports, and through them each pair of pins with the same name
+
+import {
+  Diagram,
+  DiagramEdge,
+  getDisplayProperty,
+  isBundleNode,
+  isGhostNode,
+  isMateEdge,
+  isSpliceNode,
+} from "./diagram";
+import { DiagramIndex, findPort, getParentCable } from "./diagramIndex";
+import { parseCurrent, parseLength, parseVoltage } from "./units";
+import { parseGauge, WireGauge } from "./wireGauge";
+
+export interface NetPin {
+  nodeId: string;
+  portId: string;
+  pinId: string;
+  function?: string;      // normalized pin function (PWR, GND, TX+, ...)
+  label: string;          // "J1.3" style name for messages
+}
+
+export interface Net {
+  id: string;             // N1, N2, ... in edge order
+  name: string;           // label of the first pin (or conductor) on the net
+  pins: NetPin[];
+  nodeIds: string[];      // every node the net touches, bundles and splices included
+  edgeIds: string[];      // conductors that make up the net
+}
+
+
+// Union-find over vertex keys
+class DisjointSet {
+  private parent = new Map<string, string>();
+
+  add(key: string) {
+    if (!this.parent.has(key)) this.parent.set(key, key);
+  }
+
+  has(key: string): boolean {
+    return this.parent.has(key);
+  }
+
+  find(key: string): string {
+    let root = key;
+    while (this.parent.get(root) !== root) root = this.parent.get(root)!;
+    // path compression
+    let cur = key;
+    while (cur !== root) {
+      const next = this.parent.get(cur)!;
+      this.parent.set(cur, root);
+      cur = next;
+    }
+    return root;
+  }
+
+  union(a: string, b: string) {
+    const ra = this.find(a);
+    const rb = this.find(b);
+    if (ra !== rb) this.parent.set(rb, ra);
+  }
+}
+
+
+// Length of a conductor in mm; a cable conductor without its own length uses the cable's
+export function getConductorLength(index: DiagramIndex, edge: DiagramEdge): number | null {
+  const own = parseLength(getDisplayProperty(edge, "length"));
+  if (own !== null || !edge.data?.parent_id) return own;
+  return parseLength(getDisplayProperty(getParentCable(index, edge), "length"));
+}
+
+
+// Gauge of a conductor; a cable conductor without its own gauge uses the cable's
+export function getConductorGauge(index: DiagramIndex, edge: DiagramEdge): WireGauge | null {
+  const own = getDisplayProperty(edge, "gauge");
+  if (own || !edge.data?.parent_id) return parseGauge(own);
+  return parseGauge(getDisplayProperty(getParentCable(index, edge), "gauge"));
+}
+
+
+export function extractNets(
+  index: DiagramIndex,
+  normalizeFunction: (fn: string) => string = fn => fn.toUpperCase()
+): Net[] {
+  const { diagram, nodesById } = index;
+
+  // pin id → where it lives, per node
+  const pinInfo = new Map<string, NetPin>(); // `${nodeId}:${pinId}` → pin
+  for (const node of diagram.nodes) {
+    const refName = index.nodeName(node.id);
+    for (const port of node.data?.ports || []) {
+      for (const pin of port.pins) {
+        pinInfo.set(`${node.id}:${pin.id}`, {
+          nodeId: node.id,
+          portId: port.id,
+          pinId: pin.id,
+          function: pin.function ? normalizeFunction(pin.function) : undefined,
+          label: `${refName}.${pin.name || pin.id}`,
+        });
+      }
+    }
+  }
+
+  const sets = new DisjointSet();
+  const conductors = index.conductors;
+  const bundleEnds = new Map<string, string[]>(); // bundle node id → handle-less end vertices
+
+  // vertex key for one end of a conductor
+  const endVertex = (edge: DiagramEdge, end: "source" | "target"): string => {
+    const nodeId = edge[end];
+    const handle = end === "source" ? edge.sourceHandle : edge.targetHandle;
+    const loose = `end:${edge.id}:${end}`;
+    if (!nodeId) return loose;
+
+    const node = nodesById.get(nodeId);
+    if (!node || isGhostNode(node)) return loose;
+    if (isSpliceNode(node)) return `splice:${nodeId}`;
+    if (isBundleNode(node)) {
+      if (handle) return `through:${nodeId}:${handle}`;
+      const ends = bundleEnds.get(nodeId);
+      if (ends) ends.push(loose);
+      else bundleEnds.set(nodeId, [loose]);
+      return loose;
+    }
+    return handle ? `pin:${nodeId}:${handle}` : loose;
+  };
+
+  const edgeVertex = new Map<string, string>(); // edge id → one of its vertices
+  for (const edge of conductors) {
+    const a = endVertex(edge, "source");
+    const b = endVertex(edge, "target");
+    sets.add(a);
+    sets.add(b);
+    sets.union(a, b);
+    edgeVertex.set(edge.id, a);
+  }
+
+  // a bundle with exactly one wire in and one out passes it straight through
+  for (const ends of bundleEnds.values()) {
+    if (ends.length === 2) sets.union(ends[0], ends[1]);
+  }
+
+  // mated connectors join pin to pin, matched by pin name (or position when unnamed)
+  for (const edge of diagram.edges) {
+    if (!isMateEdge(edge) || !edge.source || !edge.target) continue;
+    const sourcePort = findPort(index, edge.source, edge.sourceHandle);
+    const targetPort = findPort(index, edge.target, edge.targetHandle);
+    if (!sourcePort || !targetPort) continue;
+
+    sourcePort.pins.forEach((pin, i) => {
+      const mate = pin.name
+        ? targetPort.pins.find(p => p.name === pin.name)
+        : targetPort.pins[i];
+      if (!mate) return;
+      const a = `pin:${edge.source}:${pin.id}`;
+      const b = `pin:${edge.target}:${mate.id}`;
+      sets.add(a);
+      sets.add(b);
+      sets.union(a, b);
+    });
+  }
+
+  // group conductors by root, keeping edge order so net ids are stable
+  const byRoot = new Map<string, Net>();
+  const nets: Net[] = [];
+  const netNodes = new Map<Net, Set<string>>(); // keeps nodeIds unique without scanning them
+  const addNode = (net: Net, nodeId: string) => {
+    const seen = netNodes.get(net)!;
+    if (seen.has(nodeId)) return;
+    seen.add(nodeId);
+    net.nodeIds.push(nodeId);
+  };
+  for (const edge of conductors) {
+    const root = sets.find(edgeVertex.get(edge.id)!);
+    let net = byRoot.get(root);
+    if (!net) {
+      net = { id: `N${nets.length + 1}`, name: "", pins: [], nodeIds: [], edgeIds: [] };
+      byRoot.set(root, net);
+      netNodes.set(net, new Set());
+      nets.push(net);
+    }
+    net.edgeIds.push(edge.id);
+
+    for (const nodeId of [edge.source, edge.target]) {
+      if (nodeId && nodesById.has(nodeId)) addNode(net, nodeId);
+    }
+  }
+
+  // pins: every pin vertex on a net, including pins reached only through a mated connector
+  for (const [key, pin] of pinInfo) {
+    const vertex = `pin:${key}`;
+    if (!sets.has(vertex)) continue;
+    const net = byRoot.get(sets.find(vertex));
+    if (!net) continue;
+    net.pins.push(pin);
+    addNode(net, pin.nodeId);
+  }
+
+  for (const net of nets) {
+    const edge = index.edgesById.get(net.edgeIds[0]);
+    net.name = net.pins[0]?.label || getDisplayProperty(edge, "reference_name") || net.id;
+  }
+
+  return nets;
+}
+
+
+export interface NetLoad {
+  current: number | null;   // largest current on the net, amps
+  voltage: number | null;   // largest nominal voltage on the net, volts
+}
+
+
+// Current and voltage of every net, from its pin (or port) annotations
+export function getNetLoads(diagram: Diagram, nets: Net[]): Map<Net, NetLoad> {
+  const pinLoads = new Map<string, NetLoad>(); // `${nodeId}:${pinId}` → load
+  for (const node of diagram.nodes) {
+    for (const port of node.data?.ports || []) {
+      for (const pin of port.pins) {
+        pinLoads.set(`${node.id}:${pin.id}`, {
+          current: parseCurrent(pin.current ?? port.current),
+          voltage: parseVoltage(pin.voltage ?? port.voltage),
+        });
+      }
+    }
+  }
+
+  const loads = new Map<Net, NetLoad>();
+  for (const net of nets) {
+    const load: NetLoad = { current: null, voltage: null };
+    for (const pin of net.pins) {
+      const pinLoad = pinLoads.get(`${pin.nodeId}:${pin.pinId}`);
+      if (pinLoad?.current != null) load.current = Math.max(load.current ?? 0, Math.abs(pinLoad.current));
+      if (pinLoad?.voltage != null) load.voltage = Math.max(load.voltage ?? 0, Math.abs(pinLoad.voltage));
+    }
+    loads.set(net, load);
+  }
+  return loads;
+}
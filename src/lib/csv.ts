@@ -0,0 +1,15 @@
+// CSV export for the manufacturing tables (RFC 4180: quoted when needed, CRLF rows)
+
+export type CsvValue = string | number | null | undefined;
+
+
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,580 @@
+// custom rules: team-specific checks written as JSON and loaded at runtime next to the
+// built-in rules. a rule selects nodes, edges or pins, narrows them with `where` and
+// reports every one that fails `require`:
+//
+// { "rules": [
+//   { "id": "shieldDrainInsulation",
+//     "select": "edge",
+//     "where": "pins.function = SHIELD",
+//     "require": "insulation = DRAIN",
+//     "severity": "warning",
+//     "message": "Wire {element} lands on a shield pin but its insulation is {insulation}." },
+//   { "id": "d38999Reference",
+//     "select": "node",
+//     "where": "part_name ~ D38999*",
+//     "require": "reference_name ~ J* or reference_name ~ P*",
+//     "severity": "error" } ] }
+//
+// expressions compare fields with = != ~ !~ (wildcards * and ?), `in (a, b)`, `not in`,
+// `exists` and `missing`, joined by and / or / not and parentheses. comparisons ignore
+// case and pin functions are compared after aliases ("VCC" = "PWR"). a field with several
+// values (an edge's two pins) passes when any value does. fields:
+//   node  id, type, kind (component | bundle | splice | ghost), pins.<pin field>,
+//         ports.<port field>, or any display property (part_name, reference_name, ...)
+//   edge  id, type, kind (wire | conductor | cable | mate), source.<node field>,
+//         target.<node field>, nodes.<node field> (either end), pins.<pin field> (the pins
+//         at its ends), cable.<edge field>, or any display property (insulation, gauge, ...)
+//   pin   id, name, function, current, voltage, rail, tolerance, port.<port field>, node.<node field>
+//   port  id, name, gender, family, keying, pin_count
+// `{field}` in a message is replaced by the field's values, `{element}` by the element's name
+
+import {
+  DiagramEdge,
+  DiagramNode,
+  getDisplayProperty,
+  isBundledEdge,
+  isBundleNode,
+  isGhostNode,
+  isMateEdge,
+  isSpliceNode,
+  Port,
+} from "./diagram";
+import { findPin, getParentCable, HandleOwner } from "./diagramIndex";
+import type { ERCContext, ERCResult, ERCRule, ERCRuleCategory, Severity } from "./ercTypes";
+import { normalizePinFunction } from "./pinCompatibility";
+
+export interface CustomRuleDefinition {
+  id: string;
+  label?: string;               // defaults to the id
+  description?: string;         // defaults to the `require` expression
+  select: "node" | "edge" | "pin";
+  where?: string;               // which selected elements the rule applies to (all when omitted)
+  require: string;              // what each of them must satisfy
+  severity?: Severity;          // default warning
+  category?: ERCRuleCategory;   // default metadata
+  message?: string;             // template; `{field}` and `{element}` are filled in
+}
+
+export interface CustomRuleProblem {
+  path: string;
+  message: string;
+}
+
+export class CustomRuleError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid custom rules:\n${problems.map(p => `  • ${p}`).join("\n")}`);
+    this.name = "CustomRuleError";
+  }
+}
+
+const SELECTORS = ["node", "edge", "pin"] as const;
+const SEVERITIES: Severity[] = ["error", "warning", "info"];
+const CATEGORIES: ERCRuleCategory[] = ["connectivity", "electrical", "metadata"];
+const STORAGE_KEY = "artifact-erc.customRules";
+
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+
+// ---------------------------------------------------------------------------
+// fields: what each kind of element exposes to expressions
+
+type Scope = "node" | "edge" | "pin" | "port";
+
+const SCOPES: Record<Scope, { fields: string[]; nested: Record<string, Scope>; displayProperties: boolean }> = {
+  node: { fields: ["id", "type", "kind"], nested: { pins: "pin", ports: "port" }, displayProperties: true },
+  edge: {
+    fields: ["id", "type", "kind"],
+    nested: { source: "node", target: "node", nodes: "node", pins: "pin", cable: "edge" },
+    displayProperties: true,
+  },
+  pin: {
+    fields: ["id", "name", "function", "current", "voltage", "rail", "tolerance"],
+    nested: { port: "port", node: "node" },
+    displayProperties: false,
+  },
+  port: { fields: ["id", "name", "gender", "family", "keying", "pin_count"], nested: {}, displayProperties: false },
+};
+
+
+// Why a dotted field name can't be read in a scope (null when it can)
+function checkField(scope: Scope, path: string[]): string | null {
+  const [head, ...rest] = path;
+  const { fields, nested, displayProperties } = SCOPES[scope];
+  if (!head) return "Empty field name.";
+  if (nested[head]) {
+    if (rest.length === 0) return `"${head}" needs a field, e.g. ${head}.${SCOPES[nested[head]].fields[1]}.`;
+    return checkField(nested[head], rest);
+  }
+  if (rest.length > 0) return `A ${scope} has no "${head}" to look into (${Object.keys(nested).join(", ") || "nothing"}).`;
+  if (fields.includes(head) || displayProperties) return null;
+  return `A ${scope} has no field "${head}" (${fields.join(", ")}).`;
+}
+
+
+type Element =
+  | { scope: "node"; node: DiagramNode }
+  | { scope: "edge"; edge: DiagramEdge }
+  | { scope: "pin"; owner: HandleOwner }
+  | { scope: "port"; node: DiagramNode; port: Port };
+
+
+function nodeKind(node: DiagramNode): string {
+  return isBundleNode(node) ? "bundle" : isSpliceNode(node) ? "splice" : isGhostNode(node) ? "ghost" : "component";
+}
+
+
+function edgeKind(ctx: ERCContext, edge: DiagramEdge): string {
+  if (isMateEdge(edge)) return "mate";
+  if (isBundledEdge(edge)) return "conductor";
+  return ctx.index.bundledByCable.has(edge.id) ? "cable" : "wire";
+}
+
+
+function present(...values: (string | number | undefined | null)[]): string[] {
+  return values.filter(v => v !== undefined && v !== null && String(v).trim() !== "").map(String);
+}
+
+
+// Elements one step down a nested field
+function children(ctx: ERCContext, element: Element, key: string): Element[] {
+  const node = (id: string | undefined): Element[] => {
+    const found = id ? ctx.index.nodesById.get(id) : undefined;
+    return found ? [{ scope: "node", node: found }] : [];
+  };
+  const pin = (nodeId: string | undefined, handle: string | null | undefined): Element[] => {
+    const owner = findPin(ctx.index, nodeId, handle);
+    return owner ? [{ scope: "pin", owner }] : [];
+  };
+
+  switch (element.scope) {
+    case "node": {
+      const ports = element.node.data?.ports || [];
+      if (key === "ports") return ports.map(port => ({ scope: "port", node: element.node, port }));
+      return ports.flatMap(port => port.pins.map((p): Element => ({ scope: "pin", owner: { node: element.node, port, pin: p } })));
+    }
+    case "edge": {
+      const { edge } = element;
+      if (key === "source") return node(edge.source);
+      if (key === "target") return node(edge.target);
+      if (key === "nodes") return [...node(edge.source), ...node(edge.target)];
+      if (key === "pins") return [...pin(edge.source, edge.sourceHandle), ...pin(edge.target, edge.targetHandle)];
+      const cable = getParentCable(ctx.index, edge);
+      return cable ? [{ scope: "edge", edge: cable }] : [];
+    }
+    case "pin":
+      if (key === "port") return [{ scope: "port", node: element.owner.node, port: element.owner.port }];
+      return [{ scope: "node", node: element.owner.node }];
+    case "port":
+      return [];
+  }
+}
+
+
+// Every value of a (checked) field on an element
+function fieldValues(ctx: ERCContext, element: Element, path: string[]): string[] {
+  const [head, ...rest] = path;
+  if (SCOPES[element.scope].nested[head]) {
+    return children(ctx, element, head).flatMap(child => fieldValues(ctx, child, rest));
+  }
+
+  switch (element.scope) {
+    case "node": {
+      const { node } = element;
+      if (head === "id") return [node.id];
+      if (head === "type") return [node.type || "component"];
+      if (head === "kind") return [nodeKind(node)];
+      return present(getDisplayProperty(node, head));
+    }
+    case "edge": {
+      const { edge } = element;
+      if (head === "id") return [edge.id];
+      if (head === "type") return [edge.type || "wire"];
+      if (head === "kind") return [edgeKind(ctx, edge)];
+      return present(getDisplayProperty(edge, head));
+    }
+    case "pin": {
+      const { port, pin } = element.owner;
+      if (head === "function") return present(pin?.function && normalizePinFunction(pin.function, ctx.compatibility));
+      if (head === "id" || head === "name" || head === "rail") return present(pin?.[head]);
+      const key = head as "current" | "voltage" | "tolerance";
+      return present(pin?.[key] ?? port[key]);
+    }
+    case "port":
+      return present(element.port[head as keyof Port] as string | number | undefined);
+  }
+}
+
+
+function elementName(ctx: ERCContext, element: Element): string {
+  switch (element.scope) {
+    case "node": return ctx.index.nodeName(element.node.id);
+    case "edge": return ctx.index.edgeName(element.edge.id);
+    case "pin": return `${ctx.index.nodeName(element.owner.node.id)}.${element.owner.pin?.name || element.owner.pin?.id}`;
+    case "port": return `${ctx.index.nodeName(element.node.id)}.${element.port.name || element.port.id}`;
+  }
+}
+
+
+// ---------------------------------------------------------------------------
+// expressions
+
+type Expr =
+  | { op: "and" | "or"; items: Expr[] }
+  | { op: "not"; expr: Expr }
+  | { op: "test"; field: string[]; test: "=" | "~" | "in" | "exists"; values: string[]; negate: boolean };
+
+interface Token {
+  text: string;
+  kind: "word" | "string" | "symbol";
+  at: number;             // column, from 1
+}
+
+class ExpressionError extends Error {}
+
+const TOKEN = /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(!=|!~|=|~|\(|\)|,)|([^\s()=,~!"']+))/y;
+
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN.lastIndex = 0;
+  while (source.slice(TOKEN.lastIndex).trim() !== "") {
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) {
+      const at = start + source.slice(start).search(/\S/) + 1;
+      throw new ExpressionError(`Unexpected "${source.slice(at - 1).split(/\s/)[0]}" at column ${at}.`);
+    }
+    const at = start + match[0].search(/\S/) + 1;
+    const quoted = match[1] ?? match[2];
+    if (quoted !== undefined) tokens.push({ text: quoted.replace(/\\(.)/g, "$1"), kind: "string", at });
+    else if (match[3]) tokens.push({ text: match[3], kind: "symbol", at });
+    else tokens.push({ text: match[4], kind: "word", at });
+  }
+  return tokens;
+}
+
+
+// Recursive descent over: or := and ("or" and)*; and := unary ("and" unary)*;
+// unary := "not" unary | "(" or ")" | test
+function parseExpression(source: string, scope: Scope): Expr {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isWord = (token: Token | undefined, word: string) =>
+    token?.kind === "word" && token.text.toLowerCase() === word;
+  const where = (token: Token | undefined) => (token ? `"${token.text}" at column ${token.at}` : "the end");
+  const expect = (text: string) => {
+    const token = tokens[pos];
+    if (token?.kind !== "symbol" || token.text !== text) throw new ExpressionError(`Expected "${text}" but found ${where(token)}.`);
+    pos++;
+  };
+  const value = (after: string): string => {
+    const token = tokens[pos];
+    if (!token || token.kind === "symbol") throw new ExpressionError(`Expected a value after ${after} but found ${where(token)}.`);
+    pos++;
+    return token.text;
+  };
+
+  const parseOr = (): Expr => {
+    const items = [parseAnd()];
+    while (isWord(peek(), "or")) {
+      pos++;
+      items.push(parseAnd());
+    }
+    return items.length === 1 ? items[0] : { op: "or", items };
+  };
+  const parseAnd = (): Expr => {
+    const items = [parseUnary()];
+    while (isWord(peek(), "and")) {
+      pos++;
+      items.push(parseUnary());
+    }
+    return items.length === 1 ? items[0] : { op: "and", items };
+  };
+  const parseUnary = (): Expr => {
+    const token = peek();
+    if (isWord(token, "not")) {
+      pos++;
+      return { op: "not", expr: parseUnary() };
+    }
+    if (token?.kind === "symbol" && token.text === "(") {
+      pos++;
+      const expr = parseOr();
+      expect(")");
+      return expr;
+    }
+    return parseTest();
+  };
+  const parseTest = (): Expr => {
+    const token = peek();
+    if (!token || token.kind !== "word") throw new ExpressionError(`Expected a field name but found ${where(token)}.`);
+    pos++;
+    const field = token.text.split(".");
+    const problem = checkField(scope, field);
+    if (problem) throw new ExpressionError(`${problem} (column ${token.at})`);
+
+    const op = peek();
+    if (op?.kind === "symbol" && ["=", "!=", "~", "!~"].includes(op.text)) {
+      pos++;
+      const test = op.text.endsWith("~") ? "~" : "=";
+      return { op: "test", field, test, values: [value(`"${op.text}"`)], negate: op.text.startsWith("!") };
+    }
+    if (isWord(op, "exists") || isWord(op, "missing")) {
+      pos++;
+      return { op: "test", field, test: "exists", values: [], negate: isWord(op, "missing") };
+    }
+    const negate = isWord(op, "not");
+    if (negate) pos++;
+    if (isWord(peek(), "in")) {
+      pos++;
+      expect("(");
+      const values = [value('"("')];
+      while (peek()?.kind === "symbol" && peek().text === ",") {
+        pos++;
+        values.push(value('","'));
+      }
+      expect(")");
+      return { op: "test", field, test: "in", values, negate };
+    }
+    throw new ExpressionError(
+      `Expected =, !=, ~, !~, in, not in, exists or missing after "${token.text}" but found ${where(peek())}.`
+    );
+  };
+
+  if (tokens.length === 0) throw new ExpressionError("The expression is empty.");
+  const expr = parseOr();
+  if (pos < tokens.length) throw new ExpressionError(`Unexpected ${where(tokens[pos])}.`);
+  return expr;
+}
+
+
+// "D38999*" → /^D38999.*$/i
+function globToRegExp(pattern: string): RegExp {
+  const body = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${body}$`, "i");
+}
+
+
+function evaluate(ctx: ERCContext, element: Element, expr: Expr): boolean {
+  switch (expr.op) {
+    case "and": return expr.items.every(item => evaluate(ctx, element, item));
+    case "or": return expr.items.some(item => evaluate(ctx, element, item));
+    case "not": return !evaluate(ctx, element, expr.expr);
+    case "test": {
+      const actual = fieldValues(ctx, element, expr.field).map(v => v.toLowerCase());
+      // functions compare by canonical name, so "VCC" matches a PWR pin
+      const isFunction = expr.field[expr.field.length - 1] === "function";
+      const expected = expr.values.map(v => (isFunction ? normalizePinFunction(v, ctx.compatibility) : v).toLowerCase());
+      let pass: boolean;
+      if (expr.test === "exists") pass = actual.length > 0;
+      else if (expr.test === "~") pass = actual.some(v => globToRegExp(expected[0]).test(v));
+      else pass = actual.some(v => expected.includes(v));
+      return pass !== expr.negate;
+    }
+  }
+}
+
+
+// ---------------------------------------------------------------------------
+// definitions
+
+interface CompiledRule {
+  definition: CustomRuleDefinition;
+  where: Expr | null;
+  require: Expr;
+}
+
+const PLACEHOLDER = /\{([^{}]*)\}/g;
+
+
+// Check one definition, collecting problems; the compiled rule when it is usable
+function compileRule(
+  value: unknown,
+  path: string,
+  problem: (path: string, message: string) => void
+): CompiledRule | null {
+  if (!isObject(value)) {
+    problem(path, "Custom rule must be an object.");
+    return null;
+  }
+  let failed = false;
+  const report = (at: string, message: string) => {
+    failed = true;
+    problem(at, message);
+  };
+
+  if (typeof value.id !== "string" || !/^[A-Za-z][\w-]*$/.test(value.id)) {
+    report(`${path}.id`, "Needs an id of letters, digits, _ and -, starting with a letter.");
+  }
+  for (const key of ["label", "description", "where", "message"]) {
+    if (value[key] !== undefined && typeof value[key] !== "string") report(`${path}.${key}`, "Must be a string.");
+  }
+  if (!SELECTORS.includes(value.select as CustomRuleDefinition["select"])) {
+    report(`${path}.select`, `Must be one of ${SELECTORS.join(", ")}.`);
+  }
+  if (typeof value.require !== "string") report(`${path}.require`, "Needs an expression every selected element must satisfy.");
+  if (value.severity !== undefined && !SEVERITIES.includes(value.severity as Severity)) {
+    report(`${path}.severity`, `Must be one of ${SEVERITIES.join(", ")}.`);
+  }
+  if (value.category !== undefined && !CATEGORIES.includes(value.category as ERCRuleCategory)) {
+    report(`${path}.category`, `Must be one of ${CATEGORIES.join(", ")}.`);
+  }
+  const known = ["id", "label", "description", "select", "where", "require", "severity", "category", "message"];
+  for (const key of Object.keys(value).filter(k => !known.includes(k))) {
+    report(`${path}.${key}`, `Unknown field (a rule has ${known.join(", ")}).`);
+  }
+  if (failed) return null;
+
+  const definition = value as unknown as CustomRuleDefinition;
+  const compile = (key: "where" | "require"): Expr | null => {
+    try {
+      return parseExpression(definition[key]!, definition.select);
+    } catch (e) {
+      if (!(e instanceof ExpressionError)) throw e;
+      report(`${path}.${key}`, e.message);
+      return null;
+    }
+  };
+  const where = definition.where === undefined ? null : compile("where");
+  const require = compile("require");
+
+  for (const [placeholder, name] of (definition.message ?? "").matchAll(PLACEHOLDER)) {
+    const fieldProblem = name.trim() === "element" ? null : checkField(definition.select, name.trim().split("."));
+    if (fieldProblem) report(`${path}.message`, `${placeholder}: ${fieldProblem}`);
+  }
+
+  return failed ? null : { definition, where, require: require! };
+}
+
+
+// Problems with a list of definitions (empty when all are usable); ids must not clash
+// with each other or with the built-in rules
+export function checkCustomRules(value: unknown, builtins: ERCRule[], path = "customRules"): CustomRuleProblem[] {
+  const problems: CustomRuleProblem[] = [];
+  compileAll(value, builtins, path, (at, message) => problems.push({ path: at, message }));
+  return problems;
+}
+
+
+function compileAll(
+  value: unknown,
+  builtins: ERCRule[],
+  path: string,
+  problem: (path: string, message: string) => void
+): CompiledRule[] {
+  if (!Array.isArray(value)) {
+    problem(path, "Must be a list of custom rules.");
+    return [];
+  }
+  const seen = new Set(builtins.map(r => r.id));
+  const compiled: CompiledRule[] = [];
+  value.forEach((item, i) => {
+    const at = `${path}[${i}]`;
+    const rule = compileRule(item, at, problem);
+    if (!rule) return;
+    if (seen.has(rule.definition.id)) {
+      const builtin = builtins.some(r => r.id === rule.definition.id);
+      problem(`${at}.id`, `"${rule.definition.id}" is already ${builtin ? "a built-in rule" : "used by another custom rule"}.`);
+      return;
+    }
+    seen.add(rule.definition.id);
+    compiled.push(rule);
+  });
+  return compiled;
+}
+
+
+// Parse a custom rules file: one rule, a list of them, or { "rules": [...] }
+export function parseCustomRules(json: unknown, builtins: ERCRule[]): CustomRuleDefinition[] {
+  const list = isObject(json) && Array.isArray(json.rules) ? json.rules : Array.isArray(json) ? json : [json];
+  const problems = checkCustomRules(list, builtins, "rules");
+  if (problems.length > 0) throw new CustomRuleError(problems.map(p => `${p.path}: ${p.message}`));
+  return list as CustomRuleDefinition[];
+}
+
+
+function selectElements(ctx: ERCContext, select: CustomRuleDefinition["select"]): Element[] {
+  const { diagram } = ctx;
+  if (select === "node") return diagram.nodes.map(node => ({ scope: "node", node }));
+  if (select === "edge") return diagram.edges.map(edge => ({ scope: "edge", edge }));
+  return diagram.nodes.flatMap(node =>
+    (node.data?.ports || []).flatMap(port => port.pins.map((pin): Element => ({ scope: "pin", owner: { node, port, pin } }))));
+}
+
+
+function toRule({ definition, where, require }: CompiledRule): ERCRule {
+  const severity = definition.severity ?? "warning";
+  const label = definition.label ?? definition.id;
+  const template = definition.message ?? `${label}: {element} does not satisfy ${definition.require}`;
+
+  return {
+    id: definition.id,
+    label,
+    description: definition.description ?? `Check that every ${definition.select}${where ? ` where ${definition.where}` : ""} satisfies ${definition.require}`,
+    severity,
+    category: definition.category ?? "metadata",
+    check: ctx =>
+      selectElements(ctx, definition.select)
+        .filter(element => (!where || evaluate(ctx, element, where)) && !evaluate(ctx, element, require))
+        .map((element): ERCResult => {
+          const message = template.replace(PLACEHOLDER, (_, name: string) => {
+            if (name.trim() === "element") return elementName(ctx, element);
+            const values = new Set(fieldValues(ctx, element, name.trim().split(".")));
+            return values.size ? [...values].join(", ") : "(none)";
+          });
+          return {
+            ruleId: definition.id,
+            type: severity,
+            ...(element.scope === "edge"
+              ? { edgeIds: [element.edge.id] }
+              : { nodeIds: [element.scope === "pin" ? element.owner.node.id : element.node.id] }),
+            message,
+          };
+        }),
+  };
+}
+
+
+// Rules to register next to the built-ins; throws CustomRuleError on a bad definition
+export function compileCustomRules(definitions: CustomRuleDefinition[], builtins: ERCRule[]): ERCRule[] {
+  const problems: string[] = [];
+  const compiled = compileAll(definitions, builtins, "customRules", (path, message) => problems.push(`${path}: ${message}`));
+  if (problems.length > 0) throw new CustomRuleError(problems);
+  return compiled.map(toRule);
+}
+
+
+// ---------------------------------------------------------------------------
+// browser storage: the custom rules file in use, kept across reloads
+
+export interface CustomRuleFile {
+  name: string;           // file the rules were loaded from
+  rules: CustomRuleDefinition[];
+}
+
+
+// the raw stored text is the snapshot for React's useSyncExternalStore (undefined while server rendering)
+export function getCustomRulesSnapshot(): string | null | undefined {
+  return typeof localStorage === "undefined" ? undefined : localStorage.getItem(STORAGE_KEY);
+}
+
+
+export function parseStoredCustomRules(text: string | null, builtins: ERCRule[]): CustomRuleFile | null {
+  try {
+    const stored = JSON.parse(text || "null");
+    if (!isObject(stored) || typeof stored.name !== "string") return null;
+    return { name: stored.name, rules: parseCustomRules(stored.rules, builtins) };
+  } catch {
+    return null;
+  }
+}
+
+
+export function saveCustomRules(file: CustomRuleFile | null) {
+  if (file) localStorage.setItem(STORAGE_KEY, JSON.stringify(file));
+  else localStorage.removeItem(STORAGE_KEY);
+}
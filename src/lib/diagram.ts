@@ -0,0 +1,141 @@
+// types for Artifact diagram JSON files
+// nodes -> devices (components), cable bundles, splices and ghost (placeholder) nodes
+// edges -> wires, bundled edges for the conductors inside a cable, and mate edges
+//          joining two connector ports
+
+import type { Waiver } from "./waivers";
+
+export interface DisplayProperty {
+  key: string;
+  value?: string;
+}
+
+export interface Pin {
+  id: string;
+  name?: string;
+  function?: string;      // PWR, GND, TX+, ...
+  current?: number | string;  // expected load current, e.g. 2.5 or "500mA"
+  voltage?: number | string;  // nominal voltage, e.g. 28 or "+5V"
+  rail?: string;              // the rail or voltage domain the pin supplies, e.g. "+28V_MAIN", "SIG_GND"
+  tolerance?: number | string;  // around `voltage`: 10 or "10%" (percent), "0.5V" (volts)
+}
+
+export interface Port {
+  id: string;
+  name?: string;
+  pins: Pin[];
+  current?: number | string;  // applies to every pin on the port that doesn't set its own
+  voltage?: number | string;
+  rail?: string;
+  tolerance?: number | string;
+  gender?: string;        // male / female / genderless
+  family?: string;        // connector family or type, e.g. "D38999 Series III"
+  keying?: string;        // key position / clocking, e.g. "N", "A"
+  pin_count?: number;     // cavities, when not every cavity is listed in `pins`
+}
+
+export interface XYPosition {
+  x: number;
+  y: number;
+}
+
+export interface NodeData {
+  display_properties?: DisplayProperty[];
+  ports?: Port[];
+}
+
+interface BaseNode {
+  id: string;
+  position?: XYPosition;
+  data?: NodeData;
+}
+
+// any node that is not a bundle or a ghost is a component
+export interface ComponentNode extends BaseNode {
+  type?: string;
+}
+
+export interface BundleNode extends BaseNode {
+  type: "bundleNode";
+}
+
+export interface GhostNode extends BaseNode {
+  type: "ghostNode";
+}
+
+// a splice joins every wire attached to it into one conductor
+export interface SpliceNode extends BaseNode {
+  type: "spliceNode";
+}
+
+export type DiagramNode = ComponentNode | BundleNode | GhostNode | SpliceNode;
+
+export interface EdgeData {
+  display_properties?: DisplayProperty[];   // reference_name, length, insulation, gauge, ...
+  parent_id?: string;     // cable edge this conductor belongs to
+}
+
+interface BaseEdge {
+  id: string;
+  source?: string;
+  target?: string;
+  sourceHandle?: string | null;   // pin id on the source node (port id for mate edges)
+  targetHandle?: string | null;   // pin id on the target node (port id for mate edges)
+  data?: EdgeData;
+}
+
+export interface WireEdge extends BaseEdge {
+  type?: string;
+}
+
+export interface BundledEdge extends BaseEdge {
+  type: "bundledEdge";
+  data?: EdgeData & { parent_id: string };
+}
+
+// a connector mated to another: plug ↔ receptacle, pins joined by name
+export interface MateEdge extends BaseEdge {
+  type: "mateEdge";
+}
+
+export type DiagramEdge = WireEdge | BundledEdge | MateEdge;
+
+export interface Diagram {
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  waivers?: Waiver[];     // accepted ERC results, see waivers.ts
+}
+
+
+export function isBundleNode(node: DiagramNode): node is BundleNode {
+  return node.type === "bundleNode";
+}
+
+export function isGhostNode(node: DiagramNode): node is GhostNode {
+  return node.type === "ghostNode";
+}
+
+export function isSpliceNode(node: DiagramNode): node is SpliceNode {
+  return node.type === "spliceNode";
+}
+
+// components are everything that isn't a bundle, ghost or splice node
+export function isComponentNode(node: DiagramNode): node is ComponentNode {
+  return !isBundleNode(node) && !isGhostNode(node) && !isSpliceNode(node);
+}
+
+export function isBundledEdge(edge: DiagramEdge): edge is BundledEdge {
+  return edge.type === "bundledEdge";
+}
+
+export function isMateEdge(edge: DiagramEdge): edge is MateEdge {
+  return edge.type === "mateEdge";
+}
+
+// Look up a display property value (reference_name, part_name, length, ...)
+export function getDisplayProperty(
+  item: { data?: { display_properties?: DisplayProperty[] } } | undefined,
+  key: string
+): string | undefined {
+  return item?.data?.display_properties?.find(p => p.key === key)?.value;
+}
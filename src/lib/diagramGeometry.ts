@@ -0,0 +1,140 @@
+// drawing geometry for the diagram view: node boxes from React Flow positions, handle
+// anchor points for edges, and bounding boxes to zoom to. nodes without a position are
+// laid out on a grid below the positioned ones
+
+import { Diagram, DiagramEdge, DiagramNode, isBundleNode, isGhostNode, isSpliceNode } from "./diagram";
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface NodeLayout extends Box {
+  node: DiagramNode;
+  shape: "component" | "bundle" | "splice" | "ghost";
+  handles: Map<string, number>;   // pin or port id → y offset of its row in the box
+}
+
+export const COMPONENT_WIDTH = 160;
+export const HEADER_HEIGHT = 28;
+export const ROW_HEIGHT = 16;
+const POINT_SIZE = 24;            // bundles, splices and ghosts are drawn as small markers
+const GRID_SPACING = 220;
+
+
+function nodeShape(node: DiagramNode): NodeLayout["shape"] {
+  if (isGhostNode(node)) return "ghost";
+  if (isBundleNode(node)) return "bundle";
+  if (isSpliceNode(node)) return "splice";
+  return "component";
+}
+
+
+export function layoutNodes(diagram: Diagram): Map<string, NodeLayout> {
+  const layouts = new Map<string, NodeLayout>();
+  const positioned = diagram.nodes.filter(n => n.position);
+  const maxY = positioned.length > 0 ? Math.max(...positioned.map(n => n.position!.y)) : 0;
+  let unplaced = 0;
+
+  for (const node of diagram.nodes) {
+    const shape = nodeShape(node);
+    const handles = new Map<string, number>();
+    let height = POINT_SIZE;
+    let width = POINT_SIZE;
+
+    if (shape === "component") {
+      // one row per port header and per pin; a port's handle sits on its header row
+      let row = 0;
+      for (const port of node.data?.ports || []) {
+        handles.set(port.id, HEADER_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2);
+        row++;
+        for (const pin of port.pins) {
+          handles.set(pin.id, HEADER_HEIGHT + row * ROW_HEIGHT + ROW_HEIGHT / 2);
+          row++;
+        }
+      }
+      width = COMPONENT_WIDTH;
+      height = HEADER_HEIGHT + Math.max(row, 1) * ROW_HEIGHT + 4;
+    }
+
+    const position = node.position ?? {
+      x: (unplaced % 5) * GRID_SPACING,
+      y: maxY + GRID_SPACING * (1 + Math.floor(unplaced / 5)),
+    };
+    if (!node.position) unplaced++;
+
+    layouts.set(node.id, { node, shape, handles, x: position.x, y: position.y, width, height });
+  }
+
+  return layouts;
+}
+
+
+// Where an edge end attaches: the handle's row, on the side facing the other end
+export function anchorPoint(layout: NodeLayout, handle: string | null | undefined, towards: Point): Point {
+  const center = { x: layout.x + layout.width / 2, y: layout.y + layout.height / 2 };
+  if (layout.shape !== "component") return center;
+
+  const offset = handle ? layout.handles.get(handle) : undefined;
+  const y = offset !== undefined ? layout.y + offset : center.y;
+  const x = towards.x >= center.x ? layout.x + layout.width : layout.x;
+  return { x, y };
+}
+
+
+function center(layout: NodeLayout): Point {
+  return { x: layout.x + layout.width / 2, y: layout.y + layout.height / 2 };
+}
+
+
+// End points of an edge, or null when either end is not on a node
+export function edgeEndpoints(edge: DiagramEdge, layouts: Map<string, NodeLayout>): [Point, Point] | null {
+  const source = edge.source ? layouts.get(edge.source) : undefined;
+  const target = edge.target ? layouts.get(edge.target) : undefined;
+  if (!source || !target) return null;
+  return [
+    anchorPoint(source, edge.sourceHandle, center(target)),
+    anchorPoint(target, edge.targetHandle, center(source)),
+  ];
+}
+
+
+// Bounding box of some nodes and edges (null when none of them can be drawn)
+export function boundsOf(
+  nodeIds: string[],
+  edgeIds: string[],
+  diagram: Diagram,
+  layouts: Map<string, NodeLayout>
+): Box | null {
+  const points: Point[] = [];
+  for (const id of nodeIds) {
+    const l = layouts.get(id);
+    if (l) points.push({ x: l.x, y: l.y }, { x: l.x + l.width, y: l.y + l.height });
+  }
+  for (const id of edgeIds) {
+    const edge = diagram.edges.find(e => e.id === id);
+    const ends = edge && edgeEndpoints(edge, layouts);
+    if (ends) points.push(...ends);
+    // a floating edge still has the node it hangs from
+    else if (edge) {
+      for (const nodeId of [edge.source, edge.target]) {
+        const l = nodeId ? layouts.get(nodeId) : undefined;
+        if (l) points.push({ x: l.x, y: l.y }, { x: l.x + l.width, y: l.y + l.height });
+      }
+    }
+  }
+  if (points.length === 0) return null;
+
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
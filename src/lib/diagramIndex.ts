@@ -0,0 +1,117 @@
+// one pass over a diagram building the lookups every rule needs: nodes and edges by id,
+// the pins and ports behind each handle, the edges on each node and the conductors of
+// each cable. runERC builds it once per run and hands it to the rules in the context,
+// so no rule scans the whole diagram to resolve an id
+
+import {
+  Diagram,
+  DiagramEdge,
+  DiagramNode,
+  getDisplayProperty,
+  isBundledEdge,
+  isGhostNode,
+  isMateEdge,
+  Pin,
+  Port,
+} from "./diagram";
+
+// where a handle lives: a pin on a port, or (for mate edges) the port itself
+export interface HandleOwner {
+  node: DiagramNode;
+  port: Port;
+  pin?: Pin;
+}
+
+export interface DiagramIndex {
+  diagram: Diagram;
+  nodesById: Map<string, DiagramNode>;
+  edgesById: Map<string, DiagramEdge>;
+  pinsByHandle: Map<string, HandleOwner[]>;   // pin or port id → owners (ids may repeat across nodes)
+  edgesByNode: Map<string, DiagramEdge[]>;    // node id → edges with an end on it
+  bundledByCable: Map<string, DiagramEdge[]>; // cable edge id → its bundled edges
+  ghostNodeIds: Set<string>;
+  cables: DiagramEdge[];                      // cable jackets: the edges bundled edges name as their parent
+  conductors: DiagramEdge[];                  // edges that carry current: all but cable jackets and connector mates
+  nodeName: (nodeId: string) => string;       // reference name, else the id
+  edgeName: (edgeId: string) => string;
+}
+
+
+export function buildDiagramIndex(diagram: Diagram): DiagramIndex {
+  const nodesById = new Map<string, DiagramNode>();
+  const pinsByHandle = new Map<string, HandleOwner[]>();
+  const ghostNodeIds = new Set<string>();
+  const addHandle = (id: string, owner: HandleOwner) => {
+    const owners = pinsByHandle.get(id);
+    if (owners) owners.push(owner);
+    else pinsByHandle.set(id, [owner]);
+  };
+
+  for (const node of diagram.nodes) {
+    nodesById.set(node.id, node);
+    if (isGhostNode(node)) ghostNodeIds.add(node.id);
+    for (const port of node.data?.ports || []) {
+      addHandle(port.id, { node, port });
+      for (const pin of port.pins) addHandle(pin.id, { node, port, pin });
+    }
+  }
+
+  const edgesById = new Map<string, DiagramEdge>();
+  const edgesByNode = new Map<string, DiagramEdge[]>();
+  const bundledByCable = new Map<string, DiagramEdge[]>();
+  const addToNode = (nodeId: string | undefined, edge: DiagramEdge) => {
+    if (!nodeId) return;
+    const edges = edgesByNode.get(nodeId);
+    if (!edges) edgesByNode.set(nodeId, [edge]);
+    else if (edges[edges.length - 1] !== edge) edges.push(edge); // an edge looping onto one node counts once
+  };
+
+  for (const edge of diagram.edges) {
+    edgesById.set(edge.id, edge);
+    addToNode(edge.source, edge);
+    addToNode(edge.target, edge);
+    const parentId = isBundledEdge(edge) ? edge.data?.parent_id : undefined;
+    if (!parentId) continue;
+    const bundled = bundledByCable.get(parentId);
+    if (bundled) bundled.push(edge);
+    else bundledByCable.set(parentId, [edge]);
+  }
+
+  const cables = diagram.edges.filter(e => !isBundledEdge(e) && bundledByCable.has(e.id));
+  const cableIds = new Set(cables.map(e => e.id));
+  const conductors = diagram.edges.filter(e => isBundledEdge(e) || (!isMateEdge(e) && !cableIds.has(e.id)));
+
+  return {
+    diagram,
+    nodesById,
+    edgesById,
+    pinsByHandle,
+    edgesByNode,
+    bundledByCable,
+    ghostNodeIds,
+    cables,
+    conductors,
+    nodeName: nodeId => getDisplayProperty(nodesById.get(nodeId), "reference_name") || nodeId,
+    edgeName: edgeId => getDisplayProperty(edgesById.get(edgeId), "reference_name") || edgeId,
+  };
+}
+
+
+// A port on a node, by port id
+export function findPort(index: DiagramIndex, nodeId: string | undefined, portId: string | null | undefined): Port | undefined {
+  if (!nodeId || !portId) return undefined;
+  return index.pinsByHandle.get(portId)?.find(o => o.node.id === nodeId && !o.pin)?.port;
+}
+
+
+// The pin (and its port) a handle lands on at one node
+export function findPin(index: DiagramIndex, nodeId: string | undefined, handle: string | null | undefined): HandleOwner | undefined {
+  if (!nodeId || !handle) return undefined;
+  return index.pinsByHandle.get(handle)?.find(o => o.node.id === nodeId && o.pin);
+}
+
+
+// The cable a bundled edge runs in
+export function getParentCable(index: DiagramIndex, edge: DiagramEdge): DiagramEdge | undefined {
+  return edge.data?.parent_id ? index.edgesById.get(edge.data.parent_id) : undefined;
+}
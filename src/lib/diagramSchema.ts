@@ -0,0 +1,347 @@
+// structural validation of Artifact diagram JSON, run before any ERC rule
+// problems are reported as ERC results with a JSON path to the offending value
+
+import type { ERCResult } from "./ercTypes";
+import type { Diagram } from "./diagram";
+import { checkWaiver, Waiver } from "./waivers";
+
+// structural problems are not a registry rule: they always run and can't be disabled
+export const SCHEMA_RULE_ID = "schema";
+
+export interface SchemaValidation {
+  // false when the document shape is too broken to run the rules on
+  valid: boolean;
+  diagram: Diagram | null;
+  results: ERCResult[];
+}
+
+type JsonObject = Record<string, unknown>;
+type ElementIds = Pick<ERCResult, "nodeIds" | "edgeIds">;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim() !== "";
+}
+
+
+export function validateDiagram(input: unknown): SchemaValidation {
+  const results: ERCResult[] = [];
+  let shapeErrors = 0;
+
+  // shape errors make the document unsafe for the rules, reference errors don't
+  const shapeError = (path: string, message: string, ids?: ElementIds) => {
+    shapeErrors++;
+    results.push({ ruleId: SCHEMA_RULE_ID, type: "error", path, message, ...ids });
+  };
+  const referenceError = (path: string, message: string, ids?: ElementIds) => {
+    results.push({ ruleId: SCHEMA_RULE_ID, type: "error", path, message, ...ids });
+  };
+
+  if (!isObject(input)) {
+    shapeError("$", "Diagram must be a JSON object with `nodes` and `edges` arrays.");
+    return { valid: false, diagram: null, results };
+  }
+
+  const nodes = readArray(input, "nodes", results, shapeError);
+  const edges = readArray(input, "edges", results, shapeError);
+  if (!nodes || !edges) {
+    return { valid: false, diagram: null, results };
+  }
+
+  // 1️⃣ Nodes, their ports and pins
+  const nodeIds = new Set<string>();
+  const pinsByNode = new Map<string, Set<string>>();  // node id → pin ids (only nodes that declare ports)
+  const portsByNode = new Map<string, Set<string>>(); // node id → port ids, the handles of mate edges
+  const handleNodes = new Map<string, string[]>();    // pin or port id → nodes declaring it, for messages
+
+  nodes.forEach((node, i) => {
+    const path = `$.nodes[${i}]`;
+    if (!isObject(node)) {
+      shapeError(path, "Node must be an object.");
+      return;
+    }
+
+    const id = node.id;
+    if (!isNonEmptyString(id)) {
+      shapeError(`${path}.id`, "Node is missing an `id`.");
+    } else if (nodeIds.has(id)) {
+      shapeError(`${path}.id`, `Node id "${id}" is used by more than one node.`, { nodeIds: [id] });
+    } else {
+      nodeIds.add(id);
+    }
+    const ids = isNonEmptyString(id) ? { nodeIds: [id] } : undefined;
+
+    if (node.type !== undefined && typeof node.type !== "string") {
+      shapeError(`${path}.type`, "Node `type` must be a string.", ids);
+    }
+
+    if (node.position !== undefined) {
+      const pos = node.position;
+      if (!isObject(pos) || typeof pos.x !== "number" || typeof pos.y !== "number") {
+        shapeError(`${path}.position`, "Node `position` must have numeric `x` and `y`.", ids);
+      }
+    }
+
+    if (node.data === undefined) return;
+    if (!isObject(node.data)) {
+      shapeError(`${path}.data`, "Node `data` must be an object.", ids);
+      return;
+    }
+
+    checkDisplayProperties(node.data.display_properties, `${path}.data.display_properties`, ids, shapeError);
+
+    const ports = node.data.ports;
+    if (ports === undefined) return;
+    if (!Array.isArray(ports)) {
+      shapeError(`${path}.data.ports`, "`ports` must be an array.", ids);
+      return;
+    }
+
+    const pinIds = new Set<string>();
+    const portIds = new Set<string>();
+    const declare = (handle: string) => {
+      if (isNonEmptyString(id)) handleNodes.set(handle, [...(handleNodes.get(handle) || []), id]);
+    };
+    ports.forEach((port, j) => {
+      const portPath = `${path}.data.ports[${j}]`;
+      if (!isObject(port)) {
+        shapeError(portPath, "Port must be an object.", ids);
+        return;
+      }
+      if (!isNonEmptyString(port.id)) {
+        shapeError(`${portPath}.id`, "Port is missing an `id`.", ids);
+      } else {
+        portIds.add(port.id);
+        declare(port.id);
+      }
+      checkElectricalValues(port, portPath, ids, shapeError);
+      checkConnectorValues(port, portPath, ids, shapeError);
+      if (!Array.isArray(port.pins)) {
+        shapeError(`${portPath}.pins`, "Port is missing a `pins` array.", ids);
+        return;
+      }
+
+      port.pins.forEach((pin, k) => {
+        const pinPath = `${portPath}.pins[${k}]`;
+        if (!isObject(pin)) {
+          shapeError(pinPath, "Pin must be an object.", ids);
+          return;
+        }
+        if (!isNonEmptyString(pin.id)) {
+          shapeError(`${pinPath}.id`, "Pin is missing an `id`.", ids);
+        } else if (pinIds.has(pin.id)) {
+          shapeError(`${pinPath}.id`, `Pin id "${pin.id}" appears more than once on this node.`, ids);
+        } else {
+          pinIds.add(pin.id);
+          declare(pin.id);
+        }
+        if (pin.function !== undefined && typeof pin.function !== "string") {
+          shapeError(`${pinPath}.function`, "Pin `function` must be a string.", ids);
+        }
+        checkElectricalValues(pin, pinPath, ids, shapeError);
+      });
+    });
+
+    if (isNonEmptyString(id)) {
+      pinsByNode.set(id, pinIds);
+      portsByNode.set(id, portIds);
+    }
+  });
+
+  // 2️⃣ Edges and what they reference
+  const edgeIds = new Set<string>();
+  for (const edge of edges) {
+    if (isObject(edge) && isNonEmptyString(edge.id)) edgeIds.add(edge.id);
+  }
+
+  const seenEdgeIds = new Set<string>();
+  edges.forEach((edge, i) => {
+    const path = `$.edges[${i}]`;
+    if (!isObject(edge)) {
+      shapeError(path, "Edge must be an object.");
+      return;
+    }
+
+    const id = edge.id;
+    if (!isNonEmptyString(id)) {
+      shapeError(`${path}.id`, "Edge is missing an `id`.");
+    } else if (seenEdgeIds.has(id)) {
+      shapeError(`${path}.id`, `Edge id "${id}" is used by more than one edge.`, { edgeIds: [id] });
+    } else {
+      seenEdgeIds.add(id);
+    }
+    const ids = isNonEmptyString(id) ? { edgeIds: [id] } : undefined;
+
+    if (edge.type !== undefined && typeof edge.type !== "string") {
+      shapeError(`${path}.type`, "Edge `type` must be a string.", ids);
+    }
+
+    // a missing end is a floating wire (an ERC rule), but a wrong type or dangling id is structural
+    for (const end of ["source", "target"] as const) {
+      const handleKey = end === "source" ? "sourceHandle" : "targetHandle";
+      const nodeRef = edge[end];
+      const handle = edge[handleKey];
+
+      if (nodeRef !== undefined && nodeRef !== null && typeof nodeRef !== "string") {
+        shapeError(`${path}.${end}`, `Edge \`${end}\` must be a node id.`, ids);
+        continue;
+      }
+      if (handle !== undefined && handle !== null && typeof handle !== "string") {
+        shapeError(`${path}.${handleKey}`, `Edge \`${handleKey}\` must be a pin or port id.`, ids);
+        continue;
+      }
+      if (!nodeRef) continue;
+
+      if (!nodeIds.has(nodeRef)) {
+        referenceError(`${path}.${end}`, `Edge ${end} "${nodeRef}" does not match any node.`, ids);
+        continue;
+      }
+
+      // wires land on pins and mates on ports of the node at that end; bundles, splices
+      // and ghosts (no ports) have free-form handles
+      const isMate = edge.type === "mateEdge";
+      const known = (isMate ? portsByNode : pinsByNode).get(nodeRef);
+      if (handle && known && !known.has(handle)) {
+        const elsewhere = (handleNodes.get(handle) || []).filter(n => n !== nodeRef);
+        referenceError(
+          `${path}.${handleKey}`,
+          `Edge ${handleKey} "${handle}" is not a ${isMate ? "port" : "pin"} on ${end} node "${nodeRef}"` +
+            (elsewhere.length > 0 ? ` (it belongs to ${elsewhere.map(n => `"${n}"`).join(", ")}).` : "."),
+          ids
+        );
+      }
+    }
+
+    if (edge.data === undefined) {
+      if (edge.type === "bundledEdge") {
+        referenceError(`${path}.data.parent_id`, "Bundled edge has no `parent_id` cable.", ids);
+      }
+      return;
+    }
+    if (!isObject(edge.data)) {
+      shapeError(`${path}.data`, "Edge `data` must be an object.", ids);
+      return;
+    }
+
+    checkDisplayProperties(edge.data.display_properties, `${path}.data.display_properties`, ids, shapeError);
+
+    const parentId = edge.data.parent_id;
+    if (parentId !== undefined && typeof parentId !== "string") {
+      shapeError(`${path}.data.parent_id`, "`parent_id` must be an edge id.", ids);
+    } else if (edge.type === "bundledEdge" && !parentId) {
+      referenceError(`${path}.data.parent_id`, "Bundled edge has no `parent_id` cable.", ids);
+    } else if (parentId && !edgeIds.has(parentId)) {
+      referenceError(`${path}.data.parent_id`, `parent_id "${parentId}" does not match any edge.`, ids);
+    }
+  });
+
+  // 3️⃣ Waivers: a broken waiver is dropped and reported, the rules still run
+  const waivers: Waiver[] = [];
+  if (input.waivers !== undefined) {
+    if (!Array.isArray(input.waivers)) {
+      referenceError("$.waivers", "`waivers` must be an array.");
+    } else {
+      input.waivers.forEach((waiver, i) => {
+        const problems = checkWaiver(waiver, `$.waivers[${i}]`);
+        problems.forEach(p => referenceError(p.path, p.message));
+        if (problems.length === 0) waivers.push(waiver as Waiver);
+      });
+    }
+  }
+
+  const valid = shapeErrors === 0;
+  return {
+    valid,
+    diagram: valid ? ({ nodes, edges, ...(waivers.length > 0 && { waivers }) } as Diagram) : null,
+    results,
+  };
+}
+
+
+// Read `nodes` / `edges`; a missing list is treated as empty
+function readArray(
+  root: JsonObject,
+  key: "nodes" | "edges",
+  results: ERCResult[],
+  shapeError: (path: string, message: string) => void
+): unknown[] | null {
+  const value = root[key];
+  if (value === undefined) {
+    results.push({
+      ruleId: SCHEMA_RULE_ID,
+      type: "warning",
+      path: `$.${key}`,
+      message: `Diagram has no \`${key}\` array.`,
+    });
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    shapeError(`$.${key}`, `\`${key}\` must be an array.`);
+    return null;
+  }
+  return value;
+}
+
+
+function checkDisplayProperties(
+  props: unknown,
+  path: string,
+  ids: ElementIds | undefined,
+  shapeError: (path: string, message: string, ids?: ElementIds) => void
+) {
+  if (props === undefined) return;
+  if (!Array.isArray(props)) {
+    shapeError(path, "`display_properties` must be an array.", ids);
+    return;
+  }
+
+  props.forEach((prop, i) => {
+    if (!isObject(prop) || typeof prop.key !== "string") {
+      shapeError(`${path}[${i}]`, "Display property must have a string `key`.", ids);
+    } else if (prop.value !== undefined && typeof prop.value !== "string") {
+      shapeError(`${path}[${i}].value`, `Display property "${prop.key}" must have a string \`value\`.`, ids);
+    }
+  });
+}
+
+
+// `current` / `voltage` / `tolerance` annotations on ports and pins: a number or a string
+// like "2.5A"; `rail` is a name
+function checkElectricalValues(
+  item: JsonObject,
+  path: string,
+  ids: ElementIds | undefined,
+  shapeError: (path: string, message: string, ids?: ElementIds) => void
+) {
+  for (const key of ["current", "voltage", "tolerance"]) {
+    const value = item[key];
+    if (value !== undefined && typeof value !== "number" && typeof value !== "string") {
+      shapeError(`${path}.${key}`, `\`${key}\` must be a number or a string.`, ids);
+    }
+  }
+  if (item.rail !== undefined && typeof item.rail !== "string") {
+    shapeError(`${path}.rail`, "`rail` must be a string.", ids);
+  }
+}
+
+
+// connector description on a port: gender, family and keying strings, pin_count number
+function checkConnectorValues(
+  port: JsonObject,
+  path: string,
+  ids: ElementIds | undefined,
+  shapeError: (path: string, message: string, ids?: ElementIds) => void
+) {
+  for (const key of ["gender", "family", "keying"]) {
+    if (port[key] !== undefined && typeof port[key] !== "string") {
+      shapeError(`${path}.${key}`, `Port \`${key}\` must be a string.`, ids);
+    }
+  }
+  const count = port.pin_count;
+  if (count !== undefined && (typeof count !== "number" || !Number.isInteger(count) || count < 0)) {
+    shapeError(`${path}.pin_count`, "Port `pin_count` must be a whole number.", ids);
+  }
+}
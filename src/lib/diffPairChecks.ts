@@ -0,0 +1,321 @@
+// differential pair checks: the two legs of a pair (TX+/TX-, CAN_H/CAN_L, ...) are
+// found per port and followed through their nets, so both legs can be compared
+
+import { DiagramIndex, findPort } from "./diagramIndex";
+import { getConductorLength, Net, NetPin } from "./connectivity";
+import type { ERCContext, ERCResult, ERCRule } from "./ercTypes";
+import { normalizePinFunction } from "./pinCompatibility";
+import { formatLength } from "./units";
+
+interface DiffPair {
+  nodeId: string;
+  label: string;                      // "J1.A TX+/TX-"
+  functions: [string, string];        // [positive, negative]
+  legs: [NetPin, NetPin];
+  nets: [Net | undefined, Net | undefined];
+}
+
+
+export const DIFF_PAIR_RULES: ERCRule[] = [
+  {
+    id: "diffPairRouting",
+    label: "Differential Pair Routing",
+    description: "Check that both legs of a differential pair land on the same destination port",
+    severity: "error",
+    category: "electrical",
+    check: checkDiffPairRouting,
+  },
+  {
+    id: "diffPairCable",
+    label: "Differential Pair Cabling",
+    description: "Check that both legs of a differential pair ride in the same cable",
+    severity: "warning",
+    category: "electrical",
+    check: checkDiffPairCable,
+  },
+  {
+    id: "diffPairLength",
+    label: "Differential Pair Length Match",
+    description: "Check that both legs of a differential pair have matching lengths",
+    severity: "warning",
+    category: "electrical",
+    params: { tolerancePercent: 5 },
+    check: checkDiffPairLength,
+  },
+  {
+    id: "diffPairPolarity",
+    label: "Differential Pair Polarity",
+    description: "Check that the positive and negative legs are not swapped end to end",
+    severity: "error",
+    category: "electrical",
+    check: checkDiffPairPolarity,
+  },
+];
+
+
+// pairs are found once per run and shared by the four rules (runs share their nets array)
+const pairCache = new WeakMap<Net[], DiffPair[]>();
+
+// Group pins by port into differential pairs (several pairs of the same kind are matched in order)
+function findDifferentialPairs({ diagram, index, nets, compatibility }: ERCContext): DiffPair[] {
+  const cached = pairCache.get(nets);
+  if (cached) return cached;
+  const pairs: DiffPair[] = [];
+
+  const netByPin = new Map<string, Net>(); // `${nodeId}:${pinId}` → net
+  const pinByKey = new Map<string, NetPin>();
+  for (const net of nets) {
+    for (const pin of net.pins) {
+      netByPin.set(`${pin.nodeId}:${pin.pinId}`, net);
+      pinByKey.set(`${pin.nodeId}:${pin.pinId}`, pin);
+    }
+  }
+
+  for (const node of diagram.nodes) {
+    const refName = index.nodeName(node.id);
+    for (const port of node.data?.ports || []) {
+      for (const [pos, neg] of compatibility.differentialPairs) {
+        const legPins = (fn: string): NetPin[] =>
+          port.pins
+            .filter(p => p.function && normalizePinFunction(p.function, compatibility) === fn)
+            .map(p => pinByKey.get(`${node.id}:${p.id}`) ?? {
+              nodeId: node.id,
+              portId: port.id,
+              pinId: p.id,
+              function: fn,
+              label: `${refName}.${p.name || p.id}`,
+            });
+
+        const positives = legPins(pos);
+        const negatives = legPins(neg);
+        for (let i = 0; i < Math.min(positives.length, negatives.length); i++) {
+          const legs: [NetPin, NetPin] = [positives[i], negatives[i]];
+          pairs.push({
+            nodeId: node.id,
+            label: `${refName}.${port.name || port.id} ${pos}/${neg}`,
+            functions: [pos, neg],
+            legs,
+            nets: [
+              netByPin.get(`${node.id}:${legs[0].pinId}`),
+              netByPin.get(`${node.id}:${legs[1].pinId}`),
+            ],
+          });
+        }
+      }
+    }
+  }
+
+  pairCache.set(nets, pairs);
+  return pairs;
+}
+
+
+// pins a leg reaches on other nodes
+function farPins(pair: DiffPair, net: Net | undefined): NetPin[] {
+  return net ? net.pins.filter(p => p.nodeId !== pair.nodeId) : [];
+}
+
+function portKeys(pins: NetPin[]): string[] {
+  return [...new Set(pins.map(p => `${p.nodeId}/${p.portId}`))].sort();
+}
+
+function describePorts(index: DiagramIndex, keys: string[]): string {
+  if (keys.length === 0) return "nowhere";
+  return keys
+    .map(key => {
+      const [nodeId, portId] = key.split("/");
+      const port = findPort(index, nodeId, portId);
+      return `${index.nodeName(nodeId)}.${port?.name || portId}`;
+    })
+    .join(", ");
+}
+
+// the same pair is seen from both of its ends; report it once
+function pairKey(pair: DiffPair): string {
+  return [...(pair.nets[0]?.edgeIds || []), "|", ...(pair.nets[1]?.edgeIds || [])].sort().join(",");
+}
+
+function pairEdgeIds(pair: DiffPair): string[] {
+  return [...(pair.nets[0]?.edgeIds || []), ...(pair.nets[1]?.edgeIds || [])];
+}
+
+function pairNodeIds(pair: DiffPair): string[] {
+  const far = [...farPins(pair, pair.nets[0]), ...farPins(pair, pair.nets[1])].map(p => p.nodeId);
+  return [...new Set([pair.nodeId, ...far])];
+}
+
+
+// Check that both legs of a pair reach the same destination port(s)
+function checkDiffPairRouting(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const seen = new Set<string>();
+
+  for (const pair of findDifferentialPairs(ctx)) {
+    const [pos, neg] = pair.functions;
+    const [posNet, negNet] = pair.nets;
+    if (!posNet && !negNet) continue; // pair not used
+
+    if (!posNet || !negNet) {
+      results.push({
+        ruleId: "diffPairRouting",
+        type: "error",
+        nodeIds: [pair.nodeId],
+        edgeIds: pairEdgeIds(pair),
+        message: `Differential pair ${pair.label} has only ${posNet ? pos : neg} wired.`,
+      });
+      continue;
+    }
+
+    const posPorts = portKeys(farPins(pair, posNet));
+    const negPorts = portKeys(farPins(pair, negNet));
+    if (posPorts.join() === negPorts.join()) continue;
+
+    const key = pairKey(pair);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    results.push({
+      ruleId: "diffPairRouting",
+      type: "error",
+      nodeIds: pairNodeIds(pair),
+      edgeIds: pairEdgeIds(pair),
+      message:
+        `Differential pair ${pair.label} is split: ${pos} goes to ${describePorts(ctx.index, posPorts)}, ` +
+        `${neg} goes to ${describePorts(ctx.index, negPorts)}.`,
+    });
+  }
+
+  return results;
+}
+
+
+// Check that both legs ride in the same cable (or both outside any cable)
+function checkDiffPairCable(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const { index } = ctx;
+  const seen = new Set<string>();
+
+  const cablesOf = (net: Net): string[] => {
+    const ids = new Set<string>();
+    for (const edgeId of net.edgeIds) {
+      const parentId = index.edgesById.get(edgeId)?.data?.parent_id;
+      if (parentId) ids.add(parentId);
+    }
+    return [...ids].sort();
+  };
+  const describe = (cables: string[]) =>
+    cables.length === 0 ? "no cable" : `cable ${cables.map(index.edgeName).join(", ")}`;
+
+  for (const pair of findDifferentialPairs(ctx)) {
+    const [posNet, negNet] = pair.nets;
+    if (!posNet || !negNet) continue;
+
+    const posCables = cablesOf(posNet);
+    const negCables = cablesOf(negNet);
+    if (posCables.join() === negCables.join()) continue;
+
+    const key = pairKey(pair);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const [pos, neg] = pair.functions;
+    results.push({
+      ruleId: "diffPairCable",
+      type: "warning",
+      nodeIds: pairNodeIds(pair),
+      edgeIds: pairEdgeIds(pair),
+      message: `Differential pair ${pair.label} is not cabled together: ${pos} in ${describe(posCables)}, ${neg} in ${describe(negCables)}.`,
+    });
+  }
+
+  return results;
+}
+
+
+// Check that both legs have the same length, within tolerancePercent
+function checkDiffPairLength(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const { index } = ctx;
+  const tolerance = Number(ctx.params("diffPairLength").tolerancePercent);
+  const seen = new Set<string>();
+
+  // total conductor length of a leg
+  const legLength = (net: Net): number | null => {
+    let total = 0;
+    for (const edgeId of net.edgeIds) {
+      const edge = index.edgesById.get(edgeId);
+      const length = edge ? getConductorLength(index, edge) : null;
+      if (length === null) return null;
+      total += length;
+    }
+    return total;
+  };
+
+  for (const pair of findDifferentialPairs(ctx)) {
+    const [posNet, negNet] = pair.nets;
+    if (!posNet || !negNet) continue;
+
+    const posLength = legLength(posNet);
+    const negLength = legLength(negNet);
+    if (posLength === null || negLength === null) continue;
+
+    const longest = Math.max(posLength, negLength);
+    const mismatch = longest === 0 ? 0 : (Math.abs(posLength - negLength) / longest) * 100;
+    if (mismatch <= tolerance) continue;
+
+    const key = pairKey(pair);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const [pos, neg] = pair.functions;
+    results.push({
+      ruleId: "diffPairLength",
+      type: "warning",
+      nodeIds: pairNodeIds(pair),
+      edgeIds: pairEdgeIds(pair),
+      message:
+        `Differential pair ${pair.label} legs differ in length by ${mismatch.toFixed(1)}% ` +
+        `(${pos} ${formatLength(posLength)}, ${neg} ${formatLength(negLength)}; tolerance ${tolerance}%).`,
+    });
+  }
+
+  return results;
+}
+
+
+// Check that the positive leg lands on the positive leg of the far pair (and negative on negative)
+function checkDiffPairPolarity(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const seen = new Set<string>();
+
+  const legIndex = new Map<string, number>(); // function → 0 positive / 1 negative
+  for (const [pos, neg] of ctx.compatibility.differentialPairs) {
+    legIndex.set(pos, 0);
+    legIndex.set(neg, 1);
+  }
+  const landsOn = (pins: NetPin[], index: number) =>
+    pins.length > 0 && pins.every(p => p.function !== undefined && legIndex.get(p.function) === index);
+
+  for (const pair of findDifferentialPairs(ctx)) {
+    const posFar = farPins(pair, pair.nets[0]);
+    const negFar = farPins(pair, pair.nets[1]);
+    if (!landsOn(posFar, 1) || !landsOn(negFar, 0)) continue;
+
+    const key = pairKey(pair);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const [pos, neg] = pair.functions;
+    results.push({
+      ruleId: "diffPairPolarity",
+      type: "error",
+      nodeIds: pairNodeIds(pair),
+      edgeIds: pairEdgeIds(pair),
+      message:
+        `Differential pair ${pair.label} has inverted polarity: ${pos} lands on ${posFar.map(p => `${p.label} (${p.function})`).join(", ")}, ` +
+        `${neg} lands on ${negFar.map(p => `${p.label} (${p.function})`).join(", ")}.`,
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,309 @@
+// request and response handling for the HTTP API (src/app/api/erc): turns a JSON request
+// body into ERC options, and an ERC report into the documented response shape.
+// kept free of Next.js imports so the format can be reused and type-checked on its own
+//
+// POST /api/erc
+//   { "diagram": { nodes, edges, ... },           required
+//     "profile": "prototype" | { name, rules },   built-in profile name or a profile object
+//     "rules": ["floatingWires", ...],            rule ids to run, over the profile's
+//     "ruleParams": { "diffPairLength": { "tolerancePercent": 2 } },
+//     "waivers": [{ ruleId, elementId, author, date, reason }],
+//     "pinCompatibility": { ... },                 compatibility matrix (see pinCompatibility.ts)
+//     "customRules": [{ id, select, where, require, ... }],  run next to the built-ins (see customRules.ts)
+//     "testPlan": { "hipotVoltage": 1000 } }       test plan limits (see testPlan.ts)
+//   200 → ErcResponse; 400 → ApiErrorBody (bad request); 422 → ApiErrorBody (diagram fails
+//   schema validation, `details` lists each problem with its JSON path)
+//
+// POST /api/erc/batch
+//   { "diagrams": [{ "name": "harness-a.json", "diagram": { ... } }, ...], ...shared options }
+//   200 → BatchResponse: one entry per diagram, each with its own status; a diagram that
+//   fails validation does not fail the batch
+
+import { ERC_RULES, ERCOptions, ERCReport, ERCResult, getRuleRegistry, runERC, Severity, TestInstruction } from "./ercEngine";
+import type { Net } from "./connectivity";
+import { validateDiagram } from "./diagramSchema";
+import { BUILTIN_PROFILES, checkRuleParams, checkRuleProfile, RuleProfile } from "./ruleProfiles";
+import { DEFAULT_TEST_PLAN_OPTIONS } from "./testPlan";
+import { checkWaiver, WaivedResult, Waiver } from "./waivers";
+import { parsePinCompatibility, PinCompatibilityError } from "./pinCompatibility";
+import { checkCustomRules, CustomRuleDefinition } from "./customRules";
+
+export const API_VERSION = "1";
+export const MAX_BATCH_SIZE = 100;
+
+export type ApiErrorCode =
+  | "invalid_json"        // body is not JSON
+  | "invalid_request"     // body is JSON but not a valid request
+  | "invalid_options"     // profile, waivers, compatibility matrix or custom rules rejected
+  | "invalid_diagram"     // diagram fails schema validation
+  | "batch_too_large";
+
+export interface ApiErrorDetail {
+  path?: string;          // JSON path into the request body or the diagram
+  message: string;
+}
+
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: ApiErrorDetail[];
+  };
+}
+
+export interface ErcSummary {
+  errors: number;
+  warnings: number;
+  info: number;
+  waived: number;
+  tests: number;
+  nets: number;
+  passed: boolean;        // no error-level results
+}
+
+export interface ErcResponse {
+  apiVersion: string;
+  summary: ErcSummary;
+  results: ERCResult[];
+  waived: WaivedResult[];
+  tests: TestInstruction[];
+  nets: Net[];
+  ruleIds: string[];      // rules that ran
+}
+
+export type BatchItem =
+  | ({ name: string; status: 200 } & ErcResponse)
+  | ({ name: string; status: 400 | 422 } & ApiErrorBody);
+
+export interface BatchResponse {
+  apiVersion: string;
+  summary: {
+    diagrams: number;
+    passed: number;       // checked without error-level results
+    failed: number;       // checked, with error-level results
+    invalid: number;      // rejected before checking
+    errors: number;
+    warnings: number;
+  };
+  diagrams: BatchItem[];
+}
+
+export class ApiError extends Error {
+  constructor(
+    public status: 400 | 413 | 422,
+    public code: ApiErrorCode,
+    message: string,
+    public details?: ApiErrorDetail[]
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  toBody(): ApiErrorBody {
+    return { error: { code: this.code, message: this.message, ...(this.details && { details: this.details }) } };
+  }
+}
+
+const OPTION_KEYS = ["profile", "rules", "ruleParams", "waivers", "pinCompatibility", "customRules", "testPlan"];
+
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+
+// ERC options from the shared part of a request body
+export function parseErcOptions(body: Record<string, unknown>): ERCOptions {
+  const options: ERCOptions = {};
+
+  // custom rules first: the profile, rule ids and parameters may name them
+  if (body.customRules !== undefined) {
+    const problems = checkCustomRules(body.customRules, ERC_RULES, "customRules");
+    if (problems.length > 0) throw new ApiError(400, "invalid_options", "Invalid customRules.", problems);
+    options.customRules = body.customRules as CustomRuleDefinition[];
+  }
+  const registry = getRuleRegistry(options.customRules);
+
+  if (body.profile !== undefined) {
+    if (typeof body.profile === "string") {
+      const profile = BUILTIN_PROFILES.find(p => p.name === body.profile);
+      if (!profile) {
+        throw new ApiError(400, "invalid_options", `Unknown profile "${body.profile}".`, [
+          { path: "profile", message: `Built-in profiles: ${BUILTIN_PROFILES.map(p => p.name).join(", ")}.` },
+        ]);
+      }
+      options.profile = profile;
+    } else {
+      const problems = checkRuleProfile(body.profile, registry, "profile");
+      if (problems.length > 0) throw new ApiError(400, "invalid_options", "Invalid profile.", problems);
+      options.profile = body.profile as unknown as RuleProfile;
+    }
+  }
+
+  if (body.rules !== undefined) {
+    if (!Array.isArray(body.rules) || body.rules.some(id => typeof id !== "string")) {
+      throw new ApiError(400, "invalid_request", "`rules` must be a list of rule ids.", [{ path: "rules", message: "Expected an array of strings." }]);
+    }
+    const details = body.rules.flatMap((id, i) =>
+      registry.some(r => r.id === id) ? [] : [{ path: `rules[${i}]`, message: `Unknown rule "${id}".` }]);
+    if (details.length > 0) throw new ApiError(400, "invalid_options", "Unknown rule id(s).", details);
+    options.rules = body.rules as string[];
+  }
+
+  if (body.ruleParams !== undefined) {
+    if (!isObject(body.ruleParams) || Object.values(body.ruleParams).some(p => !isObject(p))) {
+      throw new ApiError(400, "invalid_request", "`ruleParams` must map rule ids to parameter objects.", [{ path: "ruleParams", message: "Expected an object of objects." }]);
+    }
+    // a misspelt rule or parameter, or a value of the wrong type, would otherwise be silently ignored
+    const details: ApiErrorDetail[] = [];
+    for (const [id, params] of Object.entries(body.ruleParams as Record<string, Record<string, unknown>>)) {
+      const rule = registry.find(r => r.id === id);
+      if (!rule) details.push({ path: `ruleParams.${id}`, message: `Unknown rule "${id}".` });
+      else details.push(...checkRuleParams(rule, params, `ruleParams.${id}`));
+    }
+    if (details.length > 0) throw new ApiError(400, "invalid_options", "Invalid ruleParams.", details);
+    options.ruleParams = body.ruleParams as ERCOptions["ruleParams"];
+  }
+
+  if (body.waivers !== undefined) {
+    if (!Array.isArray(body.waivers)) {
+      throw new ApiError(400, "invalid_request", "`waivers` must be a list of waivers.", [{ path: "waivers", message: "Expected an array." }]);
+    }
+    const problems = body.waivers.flatMap((w, i) => checkWaiver(w, `waivers[${i}]`));
+    if (problems.length > 0) throw new ApiError(400, "invalid_options", "Invalid waivers.", problems);
+    options.waivers = body.waivers as Waiver[];
+  }
+
+  if (body.pinCompatibility !== undefined) {
+    try {
+      options.pinCompatibility = parsePinCompatibility(body.pinCompatibility);
+    } catch (e) {
+      if (!(e instanceof PinCompatibilityError)) throw e;
+      throw new ApiError(400, "invalid_options", "Invalid pinCompatibility.",
+        e.problems.map(message => ({ path: "pinCompatibility", message })));
+    }
+  }
+
+  if (body.testPlan !== undefined) {
+    if (!isObject(body.testPlan) || Object.values(body.testPlan).some(v => typeof v !== "number")) {
+      throw new ApiError(400, "invalid_request", "`testPlan` must map test plan settings to numbers.", [{ path: "testPlan", message: "Expected an object of numbers." }]);
+    }
+    const known = Object.keys(DEFAULT_TEST_PLAN_OPTIONS);
+    const details = Object.keys(body.testPlan)
+      .filter(key => !known.includes(key))
+      .map(key => ({ path: `testPlan.${key}`, message: `Unknown test plan setting (settings are ${known.join(", ")}).` }));
+    if (details.length > 0) throw new ApiError(400, "invalid_options", "Invalid testPlan.", details);
+    options.testPlan = body.testPlan as ERCOptions["testPlan"];
+  }
+
+  return options;
+}
+
+
+// Reject a diagram that is too broken to check, with every schema problem as a detail
+export function assertValidDiagram(diagram: unknown, path = "diagram"): void {
+  if (diagram === undefined) {
+    throw new ApiError(400, "invalid_request", `Missing \`${path}\`.`, [{ path, message: "A diagram object is required." }]);
+  }
+  const schema = validateDiagram(diagram);
+  if (!schema.valid) {
+    throw new ApiError(422, "invalid_diagram", "The diagram failed schema validation.",
+      schema.results.map(r => ({ path: r.path, message: r.message })));
+  }
+}
+
+
+export function toErcResponse(report: ERCReport): ErcResponse {
+  const count = (type: Severity) => report.results.filter(r => r.type === type).length;
+  return {
+    apiVersion: API_VERSION,
+    summary: {
+      errors: count("error"),
+      warnings: count("warning"),
+      info: count("info"),
+      waived: report.waived.length,
+      tests: report.tests.length,
+      nets: report.nets.length,
+      passed: count("error") === 0,
+    },
+    results: report.results,
+    waived: report.waived,
+    tests: report.tests,
+    nets: report.nets,
+    ruleIds: report.ruleIds,
+  };
+}
+
+
+// Parse the raw body text; every request body must be a JSON object
+export function parseRequestBody(text: string): Record<string, unknown> {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch (e) {
+    throw new ApiError(400, "invalid_json", `Request body is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!isObject(body)) {
+    throw new ApiError(400, "invalid_request", "Request body must be a JSON object.");
+  }
+  return body;
+}
+
+
+// POST /api/erc
+export function handleErcRequest(body: Record<string, unknown>): ErcResponse {
+  const unknown = Object.keys(body).filter(k => k !== "diagram" && !OPTION_KEYS.includes(k));
+  if (unknown.length > 0) {
+    throw new ApiError(400, "invalid_request", `Unknown field(s): ${unknown.join(", ")}.`, unknown.map(path => ({ path, message: "Unknown field." })));
+  }
+  const options = parseErcOptions(body);
+  assertValidDiagram(body.diagram);
+  return toErcResponse(runERC(body.diagram, options));
+}
+
+
+// POST /api/erc/batch
+export function handleBatchRequest(body: Record<string, unknown>): BatchResponse {
+  const unknown = Object.keys(body).filter(k => k !== "diagrams" && !OPTION_KEYS.includes(k));
+  if (unknown.length > 0) {
+    throw new ApiError(400, "invalid_request", `Unknown field(s): ${unknown.join(", ")}.`, unknown.map(path => ({ path, message: "Unknown field." })));
+  }
+  if (!Array.isArray(body.diagrams) || body.diagrams.length === 0) {
+    throw new ApiError(400, "invalid_request", "`diagrams` must be a non-empty list.", [
+      { path: "diagrams", message: 'Expected [{ "name": "...", "diagram": { ... } }, ...].' },
+    ]);
+  }
+  if (body.diagrams.length > MAX_BATCH_SIZE) {
+    throw new ApiError(413, "batch_too_large", `A batch may hold at most ${MAX_BATCH_SIZE} diagrams (got ${body.diagrams.length}).`);
+  }
+  // shared options are checked once, up front: a bad profile fails the whole batch
+  const options = parseErcOptions(body);
+
+  const diagrams: BatchItem[] = body.diagrams.map((entry: unknown, i): BatchItem => {
+    const name = isObject(entry) && typeof entry.name === "string" ? entry.name : `diagrams[${i}]`;
+    try {
+      if (!isObject(entry)) {
+        throw new ApiError(400, "invalid_request", "Batch entries must be objects.", [{ path: `diagrams[${i}]`, message: "Expected { name, diagram }." }]);
+      }
+      assertValidDiagram(entry.diagram, `diagrams[${i}].diagram`);
+      return { name, status: 200, ...toErcResponse(runERC(entry.diagram, options)) };
+    } catch (e) {
+      if (!(e instanceof ApiError) || e.status === 413) throw e;
+      return { name, status: e.status, ...e.toBody() };
+    }
+  });
+
+  const checked = diagrams.filter((d): d is Extract<BatchItem, { status: 200 }> => d.status === 200);
+  return {
+    apiVersion: API_VERSION,
+    summary: {
+      diagrams: diagrams.length,
+      passed: checked.filter(d => d.summary.passed).length,
+      failed: checked.filter(d => !d.summary.passed).length,
+      invalid: diagrams.length - checked.length,
+      errors: checked.reduce((n, d) => n + d.summary.errors, 0),
+      warnings: checked.reduce((n, d) => n + d.summary.warnings, 0),
+    },
+    diagrams,
+  };
+}
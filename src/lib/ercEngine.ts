@@ -2,127 +2,275 @@
 // edges -> wires
 // nodes -> device
 
-export interface ERCResult {
-  id?: string;
-  type: "error" | "warning" | "info";
-  message: string;
+import {
+  Diagram,
+  DiagramEdge,
+  getDisplayProperty,
+  isBundledEdge,
+  isBundleNode,
+  isComponentNode,
+  isMateEdge,
+  isSpliceNode,
+} from "./diagram";
+import { validateDiagram } from "./diagramSchema";
+import { buildDiagramIndex, getParentCable } from "./diagramIndex";
+import { extractNets, Net } from "./connectivity";
+import { NET_RULES } from "./netChecks";
+import {
+  DEFAULT_PIN_COMPATIBILITY,
+  getCompatibility,
+  isSupplyFunction,
+  normalizePinFunction,
+  PinCompatibilityMatrix,
+} from "./pinCompatibility";
+import { DIFF_PAIR_RULES } from "./diffPairChecks";
+import { WIRE_SIZING_RULES } from "./wireSizingChecks";
+import { MATING_RULES } from "./matingChecks";
+import { CABLE_RULES } from "./cableChecks";
+import { LENGTH_RULES } from "./lengthChecks";
+import { RAIL_RULES } from "./railChecks";
+import { INSULATION_RULES } from "./insulationChecks";
+import { compileCustomRules, CustomRuleDefinition } from "./customRules";
+import { applyWaivers, WaivedResult, Waiver } from "./waivers";
+import { setDisplayProperty, setEdgeHandle } from "./fixes";
+import { generateTestPlan, TestPlanOptions } from "./testPlan";
+import { applyRuleSetting, checkRuleProfile, isRuleEnabled, RuleProfile, RuleProfileError } from "./ruleProfiles";
+import type { ERCContext, ERCFix, ERCProgress, ERCResult, ERCRule, ERCRuleParams, TestInstruction } from "./ercTypes";
+
+export type { Net, NetPin } from "./connectivity";
+export type { DiagramIndex } from "./diagramIndex";
+export type { WaivedResult, Waiver } from "./waivers";
+export type { RuleProfile, RuleSetting } from "./ruleProfiles";
+export type { CustomRuleDefinition } from "./customRules";
+export type {
+  ERCContext,
+  ERCFix,
+  ERCParamValue,
+  ERCProgress,
+  ERCResult,
+  ERCRule,
+  ERCRuleCategory,
+  ERCRuleParams,
+  Severity,
+  TestInstruction,
+} from "./ercTypes";
+
+export interface ERCOptions {
+  rules?: Iterable<string>;   // rule ids to run; the profile's (or all) rules when omitted
+  profile?: RuleProfile;      // enabled rules, severities and parameters (see ruleProfiles.ts)
+  pinCompatibility?: PinCompatibilityMatrix;  // defaults to defaultPinCompatibility.json
+  customRules?: CustomRuleDefinition[];       // run next to the built-in rules (see customRules.ts)
+  ruleParams?: Record<string, ERCRuleParams>; // rule id → parameter overrides, over the profile's
+  waivers?: Waiver[];         // sidecar waivers, applied together with the diagram's own
+  testPlan?: Partial<TestPlanOptions>;  // limits for the generated test procedure
+  onProgress?: (progress: ERCProgress) => void;  // called before each step of the run
 }
 
-export interface TestInstruction {
-  id: string;             // edge or node id
-  category: "continuity" | "power" | "signal" | "mechanical";
-  instruction: string;    // the human-readable sentence
+export interface ERCReport {
+  results: ERCResult[];
+  waived: WaivedResult[];     // results accepted by a waiver, kept for review
+  tests: TestInstruction[];
+  nets: Net[];
+  ruleIds: string[];          // rules that ran, in registry order (none on an invalid diagram)
 }
 
-// add color utility for nicer terminal output
-const colors = {
-  red: (t: string) => `\x1b[31m${t}\x1b[0m`,
-  yellow: (t: string) => `\x1b[33m${t}\x1b[0m`,
-  green: (t: string) => `\x1b[32m${t}\x1b[0m`,
-  cyan: (t: string) => `\x1b[36m${t}\x1b[0m`,
-};
-
-
-// run the full ERC
-export function runERC(diagram: any): { results: ERCResult[]; tests: TestInstruction[] } {
-  console.log(colors.cyan("\n🔍 Running ERC...\n"));
-
-  const results: ERCResult[] = [
-    ...checkFloatingWires(diagram),
-    ...checkOrphanComponents(diagram),
-    ...checkDuplicates(diagram),
-    ...checkMultipleWires(diagram),
-    ...checkPowerConnections(diagram),
-    ...checkSerialConnections(diagram),
-    ...checkMissingPartNames(diagram),
-    ...checkMissingLengths(diagram),
-    ...checkFloatingBundledWires(diagram)
-  ];
-
-  const tests = generateTestInstructions(diagram);
-
-  // improved formatted console summary
-  const errors = results.filter(r => r.type === "error");
-  const warnings = results.filter(r => r.type === "warning");
-
-  if (errors.length === 0 && warnings.length === 0) {
-    console.log(colors.green("✅ No ERC errors found!\n"));
-  } else {
-    if (errors.length > 0) {
-      console.log(colors.red(`\n❌ ${errors.length} Error(s):`));
-      errors.forEach(e => console.log(`   • ${colors.red(e.message)}\n`));
-    }
-    if (warnings.length > 0) {
-      console.log(colors.yellow(`\n⚠️  ${warnings.length} Warning(s):`));
-      warnings.forEach(w => console.log(`   • ${colors.yellow(w.message)}\n`));
-    }
+// every built-in check, in the order they run
+export const ERC_RULES: ERCRule[] = [
+  {
+    id: "floatingWires",
+    label: "Floating Wires",
+    description: "Check for wires with unconnected ends",
+    severity: "error",
+    category: "connectivity",
+    check: checkFloatingWires,
+  },
+  {
+    id: "floatingBundledWires",
+    label: "Floating Bundled Wires",
+    description: "Check for floating wires in cables",
+    severity: "error",
+    category: "connectivity",
+    check: checkFloatingBundledWires,
+  },
+  {
+    id: "orphanComponents",
+    label: "Orphan Components",
+    description: "Check for components with no connections",
+    severity: "error",
+    category: "connectivity",
+    check: checkOrphanComponents,
+  },
+  {
+    id: "duplicates",
+    label: "Duplicate Names",
+    description: "Check for duplicate reference names",
+    severity: "error",
+    category: "metadata",
+    check: checkDuplicates,
+  },
+  {
+    id: "multipleWires",
+    label: "Multiple Wires per Pin",
+    description: "Check for pins with multiple connections",
+    severity: "error",
+    category: "connectivity",
+    check: checkMultipleWires,
+  },
+  {
+    id: "powerConnections",
+    label: "Power Connections",
+    description: "Check for invalid power connections",
+    severity: "error",
+    category: "electrical",
+    check: checkPowerConnections,
+  },
+  {
+    id: "serialConnections",
+    label: "Serial Connections",
+    description: "Check TX/RX, CAN, RS-485, USB, analog and discrete pairings",
+    severity: "error",
+    category: "electrical",
+    check: checkSerialConnections,
+  },
+  {
+    id: "missingPartNames",
+    label: "Missing Part Names",
+    description: "Check for components without part names",
+    severity: "warning",
+    category: "metadata",
+    params: { defaultPartName: "TBD" },  // offered as the fix
+    check: checkMissingPartNames,
+  },
+  {
+    id: "missingLengths",
+    label: "Missing Wire Lengths",
+    description: "Check for wires without length specified",
+    severity: "warning",
+    category: "metadata",
+    params: { defaultLength: "12 in" },  // offered as the fix
+    check: checkMissingLengths,
+  },
+  ...NET_RULES,
+  ...DIFF_PAIR_RULES,
+  ...WIRE_SIZING_RULES,
+  ...MATING_RULES,
+  ...CABLE_RULES,
+  ...LENGTH_RULES,
+  ...RAIL_RULES,
+  ...INSULATION_RULES,
+];
+
+
+// The built-in rules followed by custom ones; throws CustomRuleError on a bad definition
+export function getRuleRegistry(customRules: CustomRuleDefinition[] = []): ERCRule[] {
+  return customRules.length > 0 ? [...ERC_RULES, ...compileCustomRules(customRules, ERC_RULES)] : ERC_RULES;
+}
+
+
+// run the full ERC; printing or exporting the report is up to a reporter (see reporters/)
+export function runERC(input: unknown, options: ERCOptions = {}): ERCReport {
+  // a bad profile or custom rule is the caller's mistake, not the diagram's
+  const registry = getRuleRegistry(options.customRules);
+  if (options.profile) {
+    const problems = checkRuleProfile(options.profile, registry);
+    if (problems.length > 0) throw new RuleProfileError(problems.map(p => `${p.path}: ${p.message}`));
   }
 
-  // ------------------------------
-  // Better formatted Suggested Tests
-  // ------------------------------
-  if (tests.length > 0) {
-    console.log(colors.cyan("\n🧰 Suggested Tests:\n"));
-    tests.forEach((t, idx) => {
-      console.log(` ${idx + 1}. [${colors.green(t.category)}] ${t.instruction}\n`);
-    });
-  } else {
-    console.log(colors.green("\n✅ No test instructions generated.\n"));
+  // validate the structure first; rules only run on a well-formed diagram
+  const schema = validateDiagram(input);
+  if (!schema.valid || !schema.diagram) {
+    return { results: schema.results, waived: [], tests: [], nets: [], ruleIds: [] };
   }
+  const diagram = schema.diagram;
+  const profile = options.profile;
+  const enabled = options.rules ? new Set(options.rules) : null;
+  const selected = registry.filter(rule =>
+    enabled ? enabled.has(rule.id) : !profile || isRuleEnabled(profile, rule.id));
+
+  // steps: nets, each selected rule, then the test plan
+  const total = selected.length + 2;
+  const progress = (done: number, step: string) => options.onProgress?.({ done, total, step });
+
+  progress(0, "nets");
+  const compatibility = options.pinCompatibility ?? DEFAULT_PIN_COMPATIBILITY;
+  const index = buildDiagramIndex(diagram);
+  const nets = extractNets(index, fn => normalizePinFunction(fn, compatibility));
+  const params = (ruleId: string): ERCRuleParams => ({
+    ...registry.find(r => r.id === ruleId)?.params,
+    ...profile?.rules[ruleId]?.params,
+    ...options.ruleParams?.[ruleId],
+  });
+  const pinFunctions = getPinFunctions(diagram, compatibility);
+  const ctx: ERCContext = { diagram, index, nets, pinFunctions, compatibility, params };
+
+  const edgeEnds = new Map(diagram.edges.map(e => [e.id, [e.source, e.target]]));
+  const ruleResults: ERCResult[] = [];
+  const ran = new Set<string>();
+  selected.forEach((rule, i) => {
+    progress(i + 1, rule.id);
+    ran.add(rule.id);
+    ruleResults.push(...applyRuleSetting(rule.check(ctx), profile?.rules[rule.id], index.nodesById, edgeEnds));
+  });
+
+  // waived results move aside; waivers that no longer match anything are warned about
+  const elementIds = new Set([...diagram.nodes.map(n => n.id), ...diagram.edges.map(e => e.id)]);
+  const waivers = [...(diagram.waivers || []), ...(options.waivers || [])];
+  const { results: kept, waived, stale } = applyWaivers(
+    ruleResults,
+    waivers,
+    ran,
+    new Set(registry.map(r => r.id)),
+    elementIds
+  );
+  const results: ERCResult[] = [...schema.results, ...kept, ...stale];
 
-  console.log(colors.cyan("--------------------------------------------------\n"));
-  return { results, tests };
+  progress(total - 1, "tests");
+  const tests = generateTestPlan(ctx, options.testPlan);
+  progress(total, "done");
+
+  return { results, waived, tests, nets, ruleIds: [...ran] };
 }
 
 
-// Helper function to get node name
-function getNodeName(diagram: any, nodeId: string): string {
-  const node = diagram.nodes?.find((n: any) => n.id === nodeId);
-  if (!node) return nodeId;
-  
-  const refName = node.data?.display_properties?.find(
-    (p: any) => p.key === "reference_name"
-  )?.value;
-  
-  return refName || nodeId;
+// Build lookup of pinID → normalized function (PWR, GND, TX+, etc.)
+function getPinFunctions(diagram: Diagram, compatibility: PinCompatibilityMatrix): Map<string, string> {
+  const pinMap = new Map<string, string>();
+  for (const node of diagram.nodes) {
+    for (const port of node.data?.ports || []) {
+      for (const pin of port.pins) {
+        if (pin.id && pin.function) {
+          pinMap.set(pin.id, normalizePinFunction(pin.function, compatibility));
+        }
+      }
+    }
+  }
+  return pinMap;
 }
 
 
-function getEdgeName(diagram: any, edgeId: string): string {
-  const edge = diagram.edges?.find((e: any) => e.id === edgeId);
-  if (!edge) return edgeId;
-  
-  const refName = edge.data?.display_properties?.find(
-    (p: any) => p.key === "reference_name"
-  )?.value;
-  
-  return refName || edgeId;
+function getPinFunction(pinMap: Map<string, string>, handle: DiagramEdge["sourceHandle"]): string | undefined {
+  return handle ? pinMap.get(handle) : undefined;
 }
 
 
 // Checks for floating wires (edge does NOT Have a source or target)
 // Checks for floating wires (edge does NOT Have a source or target, OR connected to ghostNode)
-function checkFloatingWires(diagram: any): ERCResult[] {
+function checkFloatingWires({ diagram, index }: ERCContext): ERCResult[] {
   const results: ERCResult[] = [];
-  
-  // Build set of ghostNode IDs
-  const ghostNodes = new Set(
-    (diagram.nodes || [])
-      .filter((n: any) => n.type === "ghostNode")
-      .map((n: any) => n.id)
-  );
+  const ghostNodes = index.ghostNodeIds;
 
-  for (const edge of diagram.edges || []) {
-    if (edge.type === "bundledEdge") continue; // skip bundled edges
+  for (const edge of diagram.edges) {
+    if (isBundledEdge(edge) || isMateEdge(edge)) continue; // skip bundled and mate edges
     
     // Check if either end is missing or connected to a ghost node
-    const sourceIsGhost = ghostNodes.has(edge.source);
-    const targetIsGhost = ghostNodes.has(edge.target);
+    const sourceIsGhost = !!edge.source && ghostNodes.has(edge.source);
+    const targetIsGhost = !!edge.target && ghostNodes.has(edge.target);
     
     if (!edge.source || !edge.target || sourceIsGhost || targetIsGhost) {
-      const wireName = edge.data?.display_properties?.find((p: any) => p.key === "reference_name")?.value || edge.id;
+      const wireName = getDisplayProperty(edge, "reference_name") || edge.id;
       results.push({
-        id: edge.id,
+        ruleId: "floatingWires",
+        edgeIds: [edge.id],
         type: "error",
         message: `Wire "${wireName}" is floating — one end is not connected.`
       });
@@ -133,23 +281,17 @@ function checkFloatingWires(diagram: any): ERCResult[] {
 
 
 // Checks for orphan components (a node whose id does not appear in any edge.source or edge.target)
-function checkOrphanComponents(diagram: any): ERCResult[] {
+function checkOrphanComponents({ diagram, index }: ERCContext): ERCResult[] {
   const results: ERCResult[] = [];
 
-  for (const node of diagram.nodes || []) {
-    if (node.type === "bundleNode" || node.type === "ghostNode") continue; 
-    let isOrphan: boolean = true;
-    for (const edge of diagram.edges || []) {
-      if (edge.type === "bundledEdge") continue;
-      if (node.id === edge.source || node.id === edge.target) {
-        isOrphan = false;
-        break;
-      }
-    }
+  for (const node of diagram.nodes) {
+    if (!isComponentNode(node)) continue; 
+    const isOrphan = !(index.edgesByNode.get(node.id) || []).some(edge => !isBundledEdge(edge));
     if (isOrphan) {
-      const refName = getNodeName(diagram, node.id);
+      const refName = index.nodeName(node.id);
       results.push({
-        id: node.id,
+        ruleId: "orphanComponents",
+        nodeIds: [node.id],
         type: "error",
         message: `Component ${refName} is an orphan component.`,
       });
@@ -161,14 +303,14 @@ function checkOrphanComponents(diagram: any): ERCResult[] {
 
 
 // Check for duplicate reference names (two or more different nodes(IDs) have same ref name)
-function checkDuplicates(diagram: any): ERCResult[] {
+function checkDuplicates({ diagram }: ERCContext): ERCResult[] {
   const results: ERCResult[] = [];
   const nameMap = new Map<string, string[]>(); // name → list of node IDs
 
   // gather all reference names
-  for (const node of diagram.nodes || []) {
-    if (node.type === "bundleNode" || node.type === "ghostNode") continue; 
-    const refName = node.data?.display_properties?.find((p: any) => p.key === "reference_name")?.value;
+  for (const node of diagram.nodes) {
+    if (!isComponentNode(node)) continue; 
+    const refName = getDisplayProperty(node, "reference_name");
     if (refName) {
       if (!nameMap.has(refName)) {
         nameMap.set(refName, []);
@@ -178,12 +320,26 @@ function checkDuplicates(diagram: any): ERCResult[] {
   }
 
   // find duplicates
+  const taken = new Set(diagram.nodes.map(n => getDisplayProperty(n, "reference_name")).filter(Boolean));
   for (const [refName, ids] of nameMap.entries()) {
     if (ids.length > 1) {
+      // fix: keep the first, renumber the rest to the next free number (J1 → J3, J4, ...)
+      const renames = ids.slice(1).map(id => {
+        const name = nextFreeName(refName, taken);
+        taken.add(name);
+        return { id, name };
+      });
       results.push({
+        ruleId: "duplicates",
         type: "error",
         message: `Duplicate reference name detected: "${refName}" appears ${ids.length} times.`,
-        id: ids.join(", "),
+        nodeIds: ids,
+        fixes: [
+          {
+            label: `Rename ${renames.map(r => `${r.id} to "${r.name}"`).join(", ")}`,
+            patch: renames.flatMap(r => setDisplayProperty(diagram, "node", r.id, "reference_name", r.name)),
+          },
+        ],
       });
     }
   }
@@ -192,26 +348,35 @@ function checkDuplicates(diagram: any): ERCResult[] {
 }
 
 
+// "J1" → "J2" (or the next number not taken); names without a number get one: "PS" → "PS2"
+function nextFreeName(name: string, taken: Set<string | undefined>): string {
+  const match = name.match(/^(.*?)(\d+)$/);
+  const prefix = match ? match[1] : name;
+  let n = match ? parseInt(match[2], 10) + 1 : 2;
+  while (taken.has(`${prefix}${n}`)) n++;
+  return `${prefix}${n}`;
+}
+
+
 // Check that no pin has multiple wires going into it 
-function checkMultipleWires(diagram: any): ERCResult[] {
+function checkMultipleWires({ diagram, index }: ERCContext): ERCResult[] {
   const results: ERCResult[] = [];
   const pinConnectionMap = new Map<string, string[]>(); // pinID → list of edge IDs
+  const ghostNodes = index.ghostNodeIds;
 
-  // Build set of ghostNode IDs
-  const ghostNodes = new Set(
-    (diagram.nodes || [])
-      .filter((n: any) => n.type === "ghostNode")
-      .map((n: any) => n.id)
+  // bundle and splice handles are pass-throughs, not pins
+  const passThrough = new Set(
+    diagram.nodes.filter(n => isBundleNode(n) || isSpliceNode(n)).map(n => n.id)
   );
 
   // loop through all edges
-  for (const edge of diagram.edges || []) {
-    if (edge.type === "bundledEdge") continue;
+  for (const edge of diagram.edges) {
+    if (isBundledEdge(edge) || isMateEdge(edge)) continue;
 
-    if (ghostNodes.has(edge.source) || ghostNodes.has(edge.target)) continue;
+    if ((edge.source && ghostNodes.has(edge.source)) || (edge.target && ghostNodes.has(edge.target))) continue;
 
-    const sourcePin = edge.sourceHandle;
-    const targetPin = edge.targetHandle;
+    const sourcePin = edge.source && passThrough.has(edge.source) ? null : edge.sourceHandle;
+    const targetPin = edge.target && passThrough.has(edge.target) ? null : edge.targetHandle;
 
     // For each pin, record that this edge is connected to it
     for (const pin of [sourcePin, targetPin]) {
@@ -226,11 +391,12 @@ function checkMultipleWires(diagram: any): ERCResult[] {
   // detect pins with multiple wires
   for (const [pin, edgeList] of pinConnectionMap.entries()) {
     if (edgeList.length > 1) {
-      const wireNames = edgeList.map(id => getEdgeName(diagram, id)).join(", ");
+      const wireNames = edgeList.map(index.edgeName).join(", ");
       results.push({
+        ruleId: "multipleWires",
         type: "error",
         message: `Pin ${pin} has multiple wires connected: ${wireNames}`,
-        id: edgeList.join(", "),
+        edgeIds: edgeList,
       });
     }
   }
@@ -240,64 +406,29 @@ function checkMultipleWires(diagram: any): ERCResult[] {
 
 
 // Check power connections
-
-// works
-
-function checkPowerConnections(diagram: any): ERCResult[] {
+// pairs involving a supply function (PWR, GND, SHIELD, ...) are judged by the compatibility matrix
+function checkPowerConnections({ diagram, index, pinFunctions: pinMap, compatibility }: ERCContext): ERCResult[] {
   const results: ERCResult[] = [];
-  const pinMap = new Map<string, string>(); // pinID → function (PWR, GND, TX+, etc.)
-
-  // build a lookup table for pin functions
-  for (const node of diagram.nodes || []) {
-    for (const port of node.data?.ports || []) {
-      for (const pin of port.pins || []) {
-        if (pin.id && pin.function) {
-          pinMap.set(pin.id, pin.function.toUpperCase());
-        }
-      }
-    }
-  }
 
   //loop through all edges to check what connects to what
-  for (const edge of diagram.edges || []) {
-    if (edge.type === "bundledEdge") continue;
-    const sourceFn = pinMap.get(edge.sourceHandle);
-    const targetFn = pinMap.get(edge.targetHandle);
+  for (const edge of diagram.edges) {
+    if (isBundledEdge(edge)) continue;
+    const sourceFn = getPinFunction(pinMap, edge.sourceHandle);
+    const targetFn = getPinFunction(pinMap, edge.targetHandle);
 
     if (!sourceFn || !targetFn) continue; // skip if missing
+    if (!isSupplyFunction(sourceFn, compatibility) && !isSupplyFunction(targetFn, compatibility)) continue;
 
-    // define “illegal” combinations
-    const illegalCombos: [string, string][] = [
-      ["PWR", "GND"],
-      ["GND", "PWR"],
-      ["PWR", "TX+"],
-      ["PWR", "TX-"],
-      ["PWR", "RX+"],
-      ["PWR", "RX-"],
-      ["TX+", "PWR"],
-      ["TX-", "PWR"],
-      ["RX+", "PWR"],
-      ["RX-", "PWR"],
-      ["GND", "TX+"], 
-      ["GND", "TX-"], 
-      ["GND", "RX+"], 
-      ["GND", "RX-"],
-      ["TX+", "GND"], 
-      ["TX-", "GND"], 
-      ["RX+", "GND"], 
-      ["RX-", "GND"]
-    ];
-
-    for (const [a, b] of illegalCombos) {
-      if (sourceFn === a && targetFn === b) {
-        const wireName = getEdgeName(diagram, edge.id);
-        results.push({
-          type: "error",
-          id: edge.id,
-          message: `Invalid power connection on wire "${wireName}": ${sourceFn} → ${targetFn}`,
-        });
-      }
-    }
+    const { level, reason } = getCompatibility(sourceFn, targetFn, compatibility);
+    if (level === "allowed") continue;
+
+    const wireName = index.edgeName(edge.id);
+    results.push({
+      ruleId: "powerConnections",
+      type: level,
+      edgeIds: [edge.id],
+      message: `${level === "error" ? "Invalid" : "Questionable"} power connection on wire "${wireName}": ${sourceFn} → ${targetFn}${reason ? ` (${reason})` : ""}`,
+    });
   }
 
   return results;
@@ -305,49 +436,58 @@ function checkPowerConnections(diagram: any): ERCResult[] {
 
 
 // Check serial connections
-function checkSerialConnections(diagram: any): ERCResult[] {
-  const results: ERCResult[] = [];
-  const pinMap = new Map<string, string>(); // pinID → function
-
-  // 1️⃣ Build lookup of pinID → function
-  for (const node of diagram.nodes || []) {
-    for (const port of node.data?.ports || []) {
-      for (const pin of port.pins || []) {
-        if (pin.id && pin.function) {
-          pinMap.set(pin.id, pin.function.toUpperCase());
-        }
-      }
+// every signal-to-signal pairing (TX/RX, CAN, RS-485, USB, analog, discrete) goes through the matrix
+function checkSerialConnections({ diagram, index, pinFunctions: pinMap, compatibility }: ERCContext): ERCResult[] {
+  // fix: move one end to a pin on the same port whose function pairs with the other end
+  const swapFixes = (edge: DiagramEdge, sourceFn: string, targetFn: string): ERCFix[] => {
+    const fixes: ERCFix[] = [];
+    for (const end of ["target", "source"] as const) {
+      const nodeId = end === "target" ? edge.target : edge.source;
+      const handle = end === "target" ? edge.targetHandle : edge.sourceHandle;
+      const otherFn = end === "target" ? sourceFn : targetFn;
+      const port = nodeId ? index.nodesById.get(nodeId)?.data?.ports?.find(p => p.pins.some(pin => pin.id === handle)) : undefined;
+      // only free pins: moving onto a wired pin would trade this problem for another
+      const wired = new Set((nodeId ? index.edgesByNode.get(nodeId) || [] : []).flatMap(e => [
+        e.source === nodeId ? e.sourceHandle : null,
+        e.target === nodeId ? e.targetHandle : null,
+      ]));
+      const pin = port?.pins.find(p =>
+        !wired.has(p.id) &&
+        p.function !== undefined &&
+        getCompatibility(otherFn, normalizePinFunction(p.function, compatibility), compatibility).level === "allowed"
+      );
+      if (!nodeId || !port || !pin) continue;
+      fixes.push({
+        label: `Move ${end} to ${index.nodeName(nodeId)}.${pin.name || pin.id} (${normalizePinFunction(pin.function!, compatibility)})`,
+        patch: setEdgeHandle(diagram, edge.id, end, pin.id),
+      });
     }
-  }
+    return fixes;
+  };
+
+  const results: ERCResult[] = [];
 
-  // 2️⃣ Loop through edges and compare functions
-  for (const edge of diagram.edges || []) {
-    const sourceFn = pinMap.get(edge.sourceHandle);
-    const targetFn = pinMap.get(edge.targetHandle);
+  // Loop through edges and compare functions (pinMap: pinID → function, built once per run)
+  for (const edge of diagram.edges) {
+    const sourceFn = getPinFunction(pinMap, edge.sourceHandle);
+    const targetFn = getPinFunction(pinMap, edge.targetHandle);
 
     if (!sourceFn || !targetFn) continue;
 
-    // Only care about serial signals
-    const serialPins = ["TX+", "TX-", "RX+", "RX-"];
-    if (!serialPins.includes(sourceFn) || !serialPins.includes(targetFn)) continue;
-
-    // correct connection
-    const validCombos = [
-      ["TX+", "RX+"],
-      ["TX-", "RX-"],
-      ["RX+", "TX+"],
-      ["RX-", "TX-"],
-    ];
-
-    const isValid = validCombos.some(([a, b]) => sourceFn === a && targetFn === b);
-    if (!isValid) {
-      const wireName = getEdgeName(diagram, edge.id);
-      results.push({
-        type: "error",
-        id: edge.id,
-        message: `Invalid serial connection on wire "${wireName}": ${sourceFn} → ${targetFn}`,
-      });
-    }
+    // Only care about signals; supply pairings belong to the power check
+    if (isSupplyFunction(sourceFn, compatibility) || isSupplyFunction(targetFn, compatibility)) continue;
+
+    const { level, reason } = getCompatibility(sourceFn, targetFn, compatibility);
+    if (level === "allowed") continue;
+
+    const wireName = index.edgeName(edge.id);
+    results.push({
+      ruleId: "serialConnections",
+      type: level,
+      edgeIds: [edge.id],
+      message: `${level === "error" ? "Invalid" : "Questionable"} serial connection on wire "${wireName}": ${sourceFn} → ${targetFn}${reason ? ` (${reason})` : ""}`,
+      fixes: swapFixes(edge, sourceFn, targetFn),
+    });
   }
 
   return results;
@@ -355,20 +495,26 @@ function checkSerialConnections(diagram: any): ERCResult[] {
 
 
 // Check that part names have been assigned to all components in the drawing
-function checkMissingPartNames(diagram: any): ERCResult[] {
+function checkMissingPartNames({ diagram, params }: ERCContext): ERCResult[] {
   const results: ERCResult[] = [];
+  const defaultPartName = String(params("missingPartNames").defaultPartName);
 
-  for (const node of diagram.nodes || []) {
-    if (node.type === "bundleNode" || node.type === "ghostNode") continue; 
-    const partName = node.data?.display_properties?.find(
-      (prop: any) => prop.key === "part_name"
-    )?.value;
+  for (const node of diagram.nodes) {
+    if (!isComponentNode(node)) continue; 
+    const partName = getDisplayProperty(node, "part_name");
 
     if (!partName || partName.trim() === "") {
       results.push({
+        ruleId: "missingPartNames",
         type: "warning",
-        id: node.id,
+        nodeIds: [node.id],
         message: `Component ${node.id} is missing a part name.`,
+        fixes: [
+          {
+            label: `Set part name to "${defaultPartName}"`,
+            patch: setDisplayProperty(diagram, "node", node.id, "part_name", defaultPartName),
+          },
+        ],
       });
     }
   }
@@ -378,21 +524,27 @@ function checkMissingPartNames(diagram: any): ERCResult[] {
 
 
 // Check that lengths have been assigned to all wires and cables
-function checkMissingLengths(diagram: any): ERCResult[] {
+function checkMissingLengths({ diagram, index, params }: ERCContext): ERCResult[] {
   const results: ERCResult[] = [];
+  const defaultLength = String(params("missingLengths").defaultLength);
 
-  for (const edge of diagram.edges || []) {
-    if (edge.type === "bundledEdge") continue;
-    const lengthProp = edge.data?.display_properties?.find(
-      (prop: any) => prop.key === "length"
-    )?.value;
+  for (const edge of diagram.edges) {
+    if (isBundledEdge(edge) || isMateEdge(edge)) continue;
+    const lengthProp = getDisplayProperty(edge, "length");
 
     if (!lengthProp || lengthProp.trim() === "") {
-      const wireName = getEdgeName(diagram, edge.id);
+      const wireName = index.edgeName(edge.id);
       results.push({
+        ruleId: "missingLengths",
         type: "warning",
-        id: edge.id,
+        edgeIds: [edge.id],
         message: `Wire "${wireName}" has no length assigned.`,
+        fixes: [
+          {
+            label: `Set length to ${defaultLength}`,
+            patch: setDisplayProperty(diagram, "edge", edge.id, "length", defaultLength),
+          },
+        ],
       });
     }
   }
@@ -401,90 +553,29 @@ function checkMissingLengths(diagram: any): ERCResult[] {
 }
 
 
-// Present suggested test instructions to the user
-function generateTestInstructions(diagram: any): TestInstruction[] {
-  const tests: TestInstruction[] = [];
-
-  for (const edge of diagram.edges || []) {
-    if (edge.type === "bundledEdge") continue;
-    const props = edge.data?.display_properties || [];
-    const refName = props.find((p: any) => p.key === "reference_name")?.value;
-    const insulation = props.find((p: any) => p.key === "insulation")?.value;
-    const length = props.find((p: any) => p.key === "length")?.value;
-    const color = insulation ? insulation.toUpperCase() : "unknown color";
-
-    // 1️⃣ Continuity test
-    tests.push({
-      id: edge.id,
-      category: "continuity",
-      instruction: `Perform a continuity check along wire ${refName || edge.id} (${color}). Ensure resistance < 1 Ω.`,
-    });
-
-    // 2️⃣ Length verification
-    if (length) {
-      tests.push({
-        id: edge.id,
-        category: "mechanical",
-        instruction: `Measure and confirm wire ${refName || edge.id} length = ${length} in.`,
-      });
-    }
-
-    // 3️⃣ Power verification
-    const hasPWR = props.some((p: any) => p.value?.toUpperCase().includes("PWR"));
-    const hasGND = props.some((p: any) => p.value?.toUpperCase().includes("GND"));
-    if (hasPWR && hasGND) {
-      tests.push({
-        id: edge.id,
-        category: "power",
-        instruction: `Using a multimeter, verify ${refName || edge.id} delivers correct voltage between PWR and GND.`,
-      });
-    }
-
-    // 4️⃣ Signal verification
-    const hasTX = props.some((p: any) => p.value?.toUpperCase().includes("TX"));
-    const hasRX = props.some((p: any) => p.value?.toUpperCase().includes("RX"));
-    if (hasTX || hasRX) {
-      tests.push({
-        id: edge.id,
-        category: "signal",
-        instruction: `Use an oscilloscope to validate ${refName || edge.id} signal integrity (${hasTX ? "TX" : "RX"} line).`,
-      });
-    }
-  }
-
-  return tests;
-}
-
-
 // Check for floating bundled edges (wires inside cables)
-function checkFloatingBundledWires(diagram: any): ERCResult[] {
+function checkFloatingBundledWires({ diagram, index }: ERCContext): ERCResult[] {
   const results: ERCResult[] = [];
-  
-  // Build set of ghostNode IDs
-  const ghostNodes = new Set(
-    (diagram.nodes || [])
-      .filter((n: any) => n.type === "ghostNode")
-      .map((n: any) => n.id)
-  );
+  const ghostNodes = index.ghostNodeIds;
 
-  for (const edge of diagram.edges || []) {
-    if (edge.type !== "bundledEdge") continue; // only check bundled edges
+  for (const edge of diagram.edges) {
+    if (!isBundledEdge(edge)) continue; // only check bundled edges
     
     // Check if either end is missing or connected to a ghost node
-    const sourceIsGhost = ghostNodes.has(edge.source);
-    const targetIsGhost = ghostNodes.has(edge.target);
+    const sourceIsGhost = !!edge.source && ghostNodes.has(edge.source);
+    const targetIsGhost = !!edge.target && ghostNodes.has(edge.target);
     
     if (!edge.source || !edge.target || sourceIsGhost || targetIsGhost) {
-      const insulation = edge.data?.display_properties?.find((p: any) => p.key === "insulation")?.value;
-      const parentEdge = diagram.edges.find((e: any) => e.id === edge.data?.parent_id);
-      const cableName = parentEdge?.data?.display_properties?.find((p: any) => p.key === "reference_name")?.value || "Unknown cable";
+      const insulation = getDisplayProperty(edge, "insulation");
+      const cableName = getDisplayProperty(getParentCable(index, edge), "reference_name") || "Unknown cable";
       
       results.push({
-        id: edge.id,
+        ruleId: "floatingBundledWires",
+        edgeIds: [edge.id],
         type: "error",
         message: `Wire in cable "${cableName}" (${insulation || "unknown color"}) is floating — one end is not connected.`
       });
     }
   }
   return results;
-}
\ No newline at end of file
+}
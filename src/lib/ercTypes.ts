@@ -0,0 +1,75 @@
+// shared ERC types: results, rules and the context every rule runs against
+
+import type { Diagram } from "./diagram";
+import type { DiagramIndex } from "./diagramIndex";
+import type { Net } from "./connectivity";
+import type { PinCompatibilityMatrix } from "./pinCompatibility";
+import type { JsonPatchOperation } from "./jsonPatch";
+
+export type Severity = "error" | "warning" | "info";
+
+export interface ERCResult {
+  ruleId: string;         // registry id of the rule that produced this result
+  type: Severity;
+  message: string;
+  nodeIds?: string[];     // affected nodes
+  edgeIds?: string[];     // affected edges
+  path?: string;          // JSON path, for structural (schema) problems
+  fixes?: ERCFix[];       // proposed mechanical fixes, best first
+}
+
+// a proposed fix: a JSON patch against the diagram document the result came from
+export interface ERCFix {
+  label: string;          // e.g. `Rename second "J1" to "J3"`
+  patch: JsonPatchOperation[];
+}
+
+export type TestCategory = "continuity" | "isolation" | "power" | "shield" | "mechanical";
+
+// one step of the generated test procedure (see testPlan.ts)
+export interface TestInstruction {
+  id: string;             // unique step id, e.g. "CT-004"
+  category: TestCategory;
+  instruction: string;    // the human-readable sentence
+  from?: string;          // probe points, e.g. "J1.3"
+  to?: string;
+  expected: string;       // e.g. "≤ 1 Ω", "≥ 100 MΩ at 500 VDC"
+  limits: { min?: number; max?: number };   // pass band, in `unit`
+  unit: string;           // Ω, MΩ, V or in
+  netIds?: string[];      // nets under test
+  nodeIds?: string[];
+  edgeIds?: string[];
+}
+
+export type ERCRuleCategory = "connectivity" | "electrical" | "metadata";
+
+// tunable rule settings, e.g. { tolerancePercent: 5 }; maps are keyed tables, e.g. { PWR: "RED" }
+export type ERCParamValue = number | string | boolean | string[] | Record<string, string>;
+export type ERCRuleParams = Record<string, ERCParamValue>;
+
+// everything a rule may look at while it runs
+export interface ERCContext {
+  diagram: Diagram;
+  index: DiagramIndex;    // lookups by id, handle and node, built once per run
+  nets: Net[];            // electrical nets, extracted once per run
+  pinFunctions: Map<string, string>;  // pin id → normalized function (PWR, GND, TX+, ...)
+  compatibility: PinCompatibilityMatrix;
+  params: (ruleId: string) => ERCRuleParams;   // rule defaults merged with caller overrides
+}
+
+export interface ERCRule {
+  id: string;
+  label: string;
+  description: string;
+  severity: Severity;     // default severity of the results it reports
+  category: ERCRuleCategory;
+  params?: ERCRuleParams; // defaults for the rule's tunable settings
+  check: (ctx: ERCContext) => ERCResult[];
+}
+
+// how far a run has got, reported before each step (see ERCOptions.onProgress)
+export interface ERCProgress {
+  done: number;           // steps finished
+  total: number;
+  step: string;           // what runs next: "nets", a rule id, "tests"; "done" at the end
+}
@@ -0,0 +1,34 @@
+// Web Worker entry: runs one ERC (or revision diff) request off the main thread, posting
+// progress before each step and the report at the end, with the validated diagram for
+// drawing. started by ercWorkerClient.ts
+
+import { validateDiagram } from "./diagramSchema";
+import { ERCOptions, runERC } from "./ercEngine";
+import { diffRevisions } from "./revisionDiff";
+import { RuleProfileError } from "./ruleProfiles";
+import { CustomRuleError } from "./customRules";
+import type { ERCWorkerMessage, ERCWorkerRequest } from "./ercWorkerClient";
+
+// the DOM lib types `self` as a window; in a worker it has a worker's postMessage
+const scope = self as unknown as Worker;
+
+function post(message: ERCWorkerMessage) {
+  scope.postMessage(message);
+}
+
+scope.addEventListener("message", (e: MessageEvent<ERCWorkerRequest>) => {
+  const request = e.data;
+  const options: ERCOptions = { ...request.options, onProgress: progress => post({ type: "progress", progress }) };
+  try {
+    const diagram = validateDiagram(request.input).diagram;
+    if (request.kind === "diff") post({ type: "diff", diff: diffRevisions(request.baseline, request.input, options), diagram });
+    else post({ type: "report", report: runERC(request.input, options), diagram });
+  } catch (err) {
+    post({
+      type: "error",
+      name: err instanceof Error ? err.name : "Error",
+      message: err instanceof Error ? err.message : String(err),
+      problems: err instanceof RuleProfileError || err instanceof CustomRuleError ? err.problems : undefined,
+    });
+  }
+});
@@ -0,0 +1,105 @@
+// runs ERC in a Web Worker (see ercWorker.ts) so large harnesses don't freeze the page.
+// each call gets its own worker, which is terminated when the run ends or is aborted;
+// progress is relayed to options.onProgress. each run also hands back the validated
+// diagram (null when it is structurally invalid), so the page never validates on the
+// main thread. where workers are unavailable (server rendering, tests) the run happens in place
+
+import type { Diagram } from "./diagram";
+import { validateDiagram } from "./diagramSchema";
+import { ERCOptions, ERCProgress, ERCReport, runERC } from "./ercEngine";
+import { diffRevisions, RevisionDiff } from "./revisionDiff";
+import { RuleProfileError } from "./ruleProfiles";
+import { CustomRuleError } from "./customRules";
+
+// options as they cross to the worker: plain data only
+export type ERCWorkerOptions = Omit<ERCOptions, "rules" | "onProgress"> & { rules?: string[] };
+
+export type ERCWorkerRequest =
+  | { kind: "erc"; input: unknown; options: ERCWorkerOptions }
+  | { kind: "diff"; baseline: unknown; input: unknown; options: ERCWorkerOptions };
+
+export type ERCWorkerMessage =
+  | { type: "progress"; progress: ERCProgress }
+  | { type: "report"; report: ERCReport; diagram: Diagram | null }
+  | { type: "diff"; diff: RevisionDiff; diagram: Diagram | null }
+  | { type: "error"; name: string; message: string; problems?: string[] };
+
+
+// Errors thrown in the worker arrive as messages; rebuild the ones callers tell apart
+function toError(message: Extract<ERCWorkerMessage, { type: "error" }>): Error {
+  if (message.problems) {
+    return message.name === "CustomRuleError" ? new CustomRuleError(message.problems) : new RuleProfileError(message.problems);
+  }
+  const error = new Error(message.message);
+  error.name = message.name;
+  return error;
+}
+
+
+function callWorker(request: ERCWorkerRequest, onProgress: ERCOptions["onProgress"], signal?: AbortSignal): Promise<ERCWorkerMessage> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const worker = new Worker(new URL("./ercWorker.ts", import.meta.url));
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", abort);
+    };
+    const abort = () => {
+      finish();
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", abort);
+
+    worker.addEventListener("message", (e: MessageEvent<ERCWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === "error") reject(toError(message));
+      else resolve(message);
+    });
+    worker.addEventListener("error", e => {
+      finish();
+      reject(new Error(e.message || "The ERC worker failed to start."));
+    });
+    worker.postMessage(request);
+  });
+}
+
+
+// functions can't be sent to a worker (progress comes back as messages), and `rules`
+// may be any iterable
+function toWorkerOptions(options: ERCOptions): ERCWorkerOptions {
+  const { rules, ...rest } = options;
+  delete rest.onProgress;
+  return { ...rest, ...(rules && { rules: [...rules] }) };
+}
+
+
+// runERC off the main thread
+export async function runERCInWorker(
+  input: unknown,
+  options: ERCOptions = {},
+  signal?: AbortSignal
+): Promise<{ report: ERCReport; diagram: Diagram | null }> {
+  if (typeof Worker === "undefined") return { report: runERC(input, options), diagram: validateDiagram(input).diagram };
+  const message = await callWorker({ kind: "erc", input, options: toWorkerOptions(options) }, options.onProgress, signal);
+  const { report, diagram } = message as Extract<ERCWorkerMessage, { type: "report" }>;
+  return { report, diagram };
+}
+
+
+// diffRevisions off the main thread
+export async function diffRevisionsInWorker(
+  baseline: unknown,
+  input: unknown,
+  options: ERCOptions = {},
+  signal?: AbortSignal
+): Promise<{ diff: RevisionDiff; diagram: Diagram | null }> {
+  if (typeof Worker === "undefined") return { diff: diffRevisions(baseline, input, options), diagram: validateDiagram(input).diagram };
+  const message = await callWorker({ kind: "diff", baseline, input, options: toWorkerOptions(options) }, options.onProgress, signal);
+  const { diff, diagram } = message as Extract<ERCWorkerMessage, { type: "diff" }>;
+  return { diff, diagram };
+}
@@ -0,0 +1,104 @@
+// building blocks for auto-fixes: JSON patches that edit one diagram element in place.
+// paths index into the diagram document, so fixes only ever replace or append values —
+// never remove array entries — and several fixes can be applied one after another.
+// each fix is proposed against the unfixed diagram, so applyFixes rebases it onto the
+// document the earlier fixes left (see rebasePatch)
+
+import type { Diagram } from "./diagram";
+import type { ERCFix } from "./ercTypes";
+import { applyPatch, getValue, JsonPatchError, JsonPatchOperation, pointer } from "./jsonPatch";
+
+
+// Set a display property on a node or edge, adding it (and `data`) when missing
+export function setDisplayProperty(
+  diagram: Diagram,
+  kind: "node" | "edge",
+  id: string,
+  key: string,
+  value: string
+): JsonPatchOperation[] {
+  const list = kind === "node" ? diagram.nodes : diagram.edges;
+  const index = list.findIndex(item => item.id === id);
+  if (index < 0) return [];
+  const base = [kind === "node" ? "nodes" : "edges", index];
+  const item = list[index];
+
+  if (!item.data) {
+    return [{ op: "add", path: pointer(...base, "data"), value: { display_properties: [{ key, value }] } }];
+  }
+  const props = item.data.display_properties;
+  if (!props) {
+    return [{ op: "add", path: pointer(...base, "data", "display_properties"), value: [{ key, value }] }];
+  }
+  const propIndex = props.findIndex(p => p.key === key);
+  if (propIndex < 0) {
+    return [{ op: "add", path: pointer(...base, "data", "display_properties", "-"), value: { key, value } }];
+  }
+  // guard against the property having changed since the fix was proposed
+  return [
+    { op: "test", path: pointer(...base, "data", "display_properties", propIndex, "key"), value: key },
+    { op: "replace", path: pointer(...base, "data", "display_properties", propIndex, "value"), value },
+  ];
+}
+
+
+// Move one end of an edge to another handle on the same node
+export function setEdgeHandle(
+  diagram: Diagram,
+  edgeId: string,
+  end: "source" | "target",
+  handle: string
+): JsonPatchOperation[] {
+  const index = diagram.edges.findIndex(e => e.id === edgeId);
+  if (index < 0) return [];
+  const key = end === "source" ? "sourceHandle" : "targetHandle";
+  const current = diagram.edges[index][key];
+  return [
+    ...(current ? [{ op: "test" as const, path: pointer("edges", index, key), value: current }] : []),
+    { op: current ? "replace" : "add", path: pointer("edges", index, key), value: handle } as JsonPatchOperation,
+  ];
+}
+
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+
+// An `add` of an object or list onto one that is already there — `data` or
+// `display_properties` that an earlier fix created on the same element — adds its
+// members instead of replacing the container and what the earlier fix put in it
+function rebaseAdd(doc: unknown, path: string, value: unknown): JsonPatchOperation[] {
+  const existing = getValue(doc, path);
+  if (Array.isArray(existing) && Array.isArray(value)) {
+    return value.map(item => ({ op: "add", path: `${path}${pointer("-")}`, value: item }));
+  }
+  if (isObject(existing) && isObject(value)) {
+    return Object.entries(value).flatMap(([key, member]) => rebaseAdd(doc, `${path}${pointer(key)}`, member));
+  }
+  return [{ op: "add", path, value }];
+}
+
+
+function rebasePatch(doc: unknown, patch: JsonPatchOperation[]): JsonPatchOperation[] {
+  return patch.flatMap(op => (op.op === "add" ? rebaseAdd(doc, op.path, op.value) : [op]));
+}
+
+
+// Apply fixes in order, each against the document the ones before it left, skipping any
+// whose patch no longer applies; returns the patched document
+export function applyFixes<T>(doc: T, fixes: ERCFix[]): { doc: T; applied: ERCFix[]; skipped: ERCFix[] } {
+  const applied: ERCFix[] = [];
+  const skipped: ERCFix[] = [];
+  let current = doc;
+  for (const fix of fixes) {
+    try {
+      current = applyPatch(current, rebasePatch(current, fix.patch));
+      applied.push(fix);
+    } catch (e) {
+      if (!(e instanceof JsonPatchError)) throw e;
+      skipped.push(fix);
+    }
+  }
+  return { doc: current, applied, skipped };
+}
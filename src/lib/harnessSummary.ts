@@ -0,0 +1,118 @@
+// harness summary: total wire and cable length and estimated copper weight, rolled up by
+// gauge. every conductor counts as wire (cable conductors included, taking the cable's
+// length when they have none); cables count once for their jacket
+
+import { Diagram } from "./diagram";
+import { buildDiagramIndex } from "./diagramIndex";
+import { getConductorGauge, getConductorLength } from "./connectivity";
+import { toCsv } from "./csv";
+import { formatLength } from "./units";
+import { copperGramsPerMetre, WireGauge } from "./wireGauge";
+
+export interface GaugeRollup {
+  gauge: string;          // "20 AWG", "0.5 mm²" or "(no gauge)"
+  wires: number;
+  lengthMm: number;       // total of the readable lengths
+  missingLengths: number; // wires counted without a length
+  copperGrams: number | null;  // null when the gauge is unknown
+}
+
+export interface HarnessSummary {
+  wires: number;
+  wireLengthMm: number;
+  wiresWithoutLength: number;
+  cables: number;
+  cableLengthMm: number;
+  cablesWithoutLength: number;
+  copperGrams: number;    // wires of a known gauge and length only
+  byGauge: GaugeRollup[]; // thickest first, unknown gauge last
+}
+
+const NO_GAUGE = "(no gauge)";
+
+
+// one label per size, however it was written ("AWG20", "#20" → "20 AWG")
+function gaugeKey(gauge: WireGauge | null): string {
+  if (!gauge) return NO_GAUGE;
+  if (gauge.awg !== undefined) return `${gauge.awg === 0 ? "1/0" : gauge.awg} AWG`;
+  return `${+gauge.areaMm2.toFixed(3)} mm²`;
+}
+
+
+export function buildHarnessSummary(diagram: Diagram): HarnessSummary {
+  const index = buildDiagramIndex(diagram);
+  const summary: HarnessSummary = {
+    wires: 0,
+    wireLengthMm: 0,
+    wiresWithoutLength: 0,
+    cables: 0,
+    cableLengthMm: 0,
+    cablesWithoutLength: 0,
+    copperGrams: 0,
+    byGauge: [],
+  };
+  const rollups = new Map<string, GaugeRollup>();
+  const areas = new Map<string, number>(); // gauge → cross-section, for the sort
+
+  for (const cable of index.cables) {
+    const length = getConductorLength(index, cable);
+    summary.cables++;
+    if (length === null) summary.cablesWithoutLength++;
+    else summary.cableLengthMm += length;
+  }
+
+  for (const edge of index.conductors) {
+    const length = getConductorLength(index, edge);
+    const gauge = getConductorGauge(index, edge);
+    const key = gaugeKey(gauge);
+    const rollup = rollups.get(key) ?? {
+      gauge: key,
+      wires: 0,
+      lengthMm: 0,
+      missingLengths: 0,
+      copperGrams: gauge ? 0 : null,
+    };
+    rollups.set(key, rollup);
+    areas.set(key, gauge?.areaMm2 ?? 0);
+
+    summary.wires++;
+    rollup.wires++;
+    if (length === null) {
+      summary.wiresWithoutLength++;
+      rollup.missingLengths++;
+      continue;
+    }
+    summary.wireLengthMm += length;
+    rollup.lengthMm += length;
+    if (gauge) {
+      const grams = copperGramsPerMetre(gauge) * (length / 1000);
+      rollup.copperGrams! += grams;
+      summary.copperGrams += grams;
+    }
+  }
+
+  summary.byGauge = [...rollups.values()].sort(
+    (a, b) => (a.copperGrams === null ? 1 : 0) - (b.copperGrams === null ? 1 : 0) || areas.get(b.gauge)! - areas.get(a.gauge)!
+  );
+  return summary;
+}
+
+
+export function harnessSummaryToCsv(summary: HarnessSummary): string {
+  const row = (item: string, count: number, lengthMm: number, missing: number, grams: number | null) => [
+    item,
+    count,
+    +lengthMm.toFixed(1),
+    formatLength(lengthMm),
+    missing,
+    grams === null ? "" : +grams.toFixed(1),
+  ];
+  return toCsv(
+    ["Item", "Count", "Total Length (mm)", "Total Length", "Without Length", "Copper (g)"],
+    [
+      row("All wires", summary.wires, summary.wireLengthMm, summary.wiresWithoutLength, summary.copperGrams),
+      row("Cables", summary.cables, summary.cableLengthMm, summary.cablesWithoutLength, null),
+      ...summary.byGauge.map(g => row(`${g.gauge} wire`, g.wires, g.lengthMm, g.missingLengths, g.copperGrams)),
+    ]
+  );
+}
@@ -0,0 +1,156 @@
+// insulation color-code checks: the wiring standard gives each pin function its insulation
+// color, as a `colorCodes` map of function → color (several allowed colors separated by "|",
+// e.g. { PWR: "RED|ORANGE" }). functions go through the compatibility matrix aliases and
+// colors through normalizeColor, so { VCC: "Red" } covers a PWR net wired in "RD"
+//
+// a wire must match the codes of every function on its net (see connectivity.ts). only a
+// wire's own `insulation` is checked: a cable conductor without one shows the cable jacket
+
+import { DiagramEdge, getDisplayProperty } from "./diagram";
+import { findPin } from "./diagramIndex";
+import type { ERCContext, ERCResult, ERCRule } from "./ercTypes";
+import { normalizePinFunction } from "./pinCompatibility";
+import { normalizeColor } from "./wireColors";
+
+export const INSULATION_RULES: ERCRule[] = [
+  {
+    id: "insulationColorCode",
+    label: "Insulation Color Code",
+    description: "Check that wire insulation colors follow the color code for the pin functions they connect",
+    severity: "warning",
+    category: "metadata",
+    params: { colorCodes: { PWR: "RED", GND: "BLACK", CAN_H: "YELLOW", CAN_L: "GREEN", CHASSIS: "GREEN/YELLOW" } },
+    check: checkInsulationColorCode,
+  },
+  {
+    id: "connectorColorConflict",
+    label: "Connector Color Conflicts",
+    description: "Check for wires of the same color on different pin functions at one connector",
+    severity: "warning",
+    category: "metadata",
+    check: checkConnectorColorConflict,
+  },
+];
+
+// a colored wire landing on a connector pin
+interface ConnectorWire {
+  edge: DiagramEdge;
+  fn: string;             // normalized function of the pin
+  pin: string;            // "J1.3" style name for messages
+}
+
+interface Connector {
+  nodeId: string;
+  name: string;           // "J1.P1" style name for messages
+  byColor: Map<string, ConnectorWire[]>;
+}
+
+
+// normalized pin function → allowed normalized colors; entries without a color are skipped
+function colorCodes(ctx: ERCContext): Map<string, string[]> {
+  const table = ctx.params("insulationColorCode").colorCodes;
+  const codes = new Map<string, string[]>();
+  const entries = typeof table === "object" && !Array.isArray(table) ? Object.entries(table) : [];
+  for (const [fn, colors] of entries) {
+    if (!fn.trim() || !colors.trim()) continue;
+    const allowed = colors.split("|").map(normalizeColor).filter((c): c is string => c !== null);
+    const key = normalizePinFunction(fn.trim(), ctx.compatibility);
+    codes.set(key, [...(codes.get(key) || []), ...allowed]);
+  }
+  return codes;
+}
+
+
+function wireColor(edge: DiagramEdge): string | null {
+  return normalizeColor(getDisplayProperty(edge, "insulation"));
+}
+
+
+function listColors(colors: string[]): string {
+  return colors.length === 1 ? colors[0] : `${colors.slice(0, -1).join(", ")} or ${colors[colors.length - 1]}`;
+}
+
+
+// Check each colored wire against the color code of every function on its net
+function checkInsulationColorCode(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const codes = colorCodes(ctx);
+  if (codes.size === 0) return results;
+
+  for (const net of ctx.nets) {
+    // coded function → the first pin carrying it, for the message
+    const coded = new Map<string, string>();
+    for (const pin of net.pins) {
+      if (pin.function && codes.has(pin.function) && !coded.has(pin.function)) coded.set(pin.function, pin.label);
+    }
+    if (coded.size === 0) continue;
+
+    for (const edgeId of net.edgeIds) {
+      const edge = ctx.index.edgesById.get(edgeId);
+      const color = edge && wireColor(edge);
+      if (!color) continue;
+
+      const expected = [...coded]
+        .filter(([fn]) => !codes.get(fn)!.includes(color))
+        .map(([fn, label]) => `${fn} (${label}) wires are ${listColors(codes.get(fn)!)}`);
+      if (expected.length === 0) continue;
+
+      results.push({
+        ruleId: "insulationColorCode",
+        type: "warning",
+        edgeIds: [edgeId],
+        message: `Wire "${ctx.index.edgeName(edgeId)}" on net ${net.name} is ${color}, but ${expected.join(" and ")}.`,
+      });
+    }
+  }
+
+  return results;
+}
+
+
+// Check that wires sharing a color at a connector all land on pins of the same function
+function checkConnectorColorConflict(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const { index } = ctx;
+
+  const connectors = new Map<string, Connector>(); // `${nodeId}:${portId}` → connector
+  for (const edge of index.conductors) {
+    const color = wireColor(edge);
+    if (!color) continue;
+
+    for (const [nodeId, handle] of [[edge.source, edge.sourceHandle], [edge.target, edge.targetHandle]] as const) {
+      const owner = findPin(index, nodeId, handle);
+      if (!owner?.pin?.function) continue;
+
+      const key = `${owner.node.id}:${owner.port.id}`;
+      const name = `${index.nodeName(owner.node.id)}.${owner.port.name || owner.port.id}`;
+      const connector = connectors.get(key) ?? { nodeId: owner.node.id, name, byColor: new Map() };
+      const wires = connector.byColor.get(color) ?? [];
+      wires.push({
+        edge,
+        fn: normalizePinFunction(owner.pin.function, ctx.compatibility),
+        pin: `${index.nodeName(owner.node.id)}.${owner.pin.name || owner.pin.id}`,
+      });
+      connector.byColor.set(color, wires);
+      connectors.set(key, connector);
+    }
+  }
+
+  for (const { nodeId, name, byColor } of connectors.values()) {
+    for (const [color, wires] of byColor) {
+      if (new Set(wires.map(w => w.fn)).size < 2) continue;
+
+      results.push({
+        ruleId: "connectorColorConflict",
+        type: "warning",
+        nodeIds: [nodeId],
+        edgeIds: [...new Set(wires.map(w => w.edge.id))],
+        message:
+          `Connector ${name} has ${color} wires on different functions: ` +
+          `${wires.map(w => `"${index.edgeName(w.edge.id)}" (${w.fn} at ${w.pin})`).join(", ")}.`,
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,129 @@
+// JSON Patch (RFC 6902) for diagram fixes: add, remove, replace and test operations
+// on JSON Pointer paths (RFC 6901). patches are applied to a copy; the input is never changed
+
+export type JsonPatchOperation =
+  | { op: "add"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: unknown }
+  | { op: "test"; path: string; value: unknown };
+
+export class JsonPatchError extends Error {
+  constructor(message: string, public operation: JsonPatchOperation) {
+    super(`${message} (${operation.op} ${operation.path})`);
+    this.name = "JsonPatchError";
+  }
+}
+
+type Container = Record<string, unknown> | unknown[];
+
+
+// Build a JSON Pointer from path segments: pointer("nodes", 3, "data") → "/nodes/3/data"
+export function pointer(...segments: (string | number)[]): string {
+  return segments.map(s => "/" + String(s).replace(/~/g, "~0").replace(/\//g, "~1")).join("");
+}
+
+
+function parsePointer(path: string): string[] {
+  if (path === "") return [];
+  if (!path.startsWith("/")) throw new Error(`"${path}" is not a JSON Pointer`);
+  return path.slice(1).split("/").map(s => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+
+// The value at a JSON Pointer, or undefined when the path does not exist
+export function getValue(doc: unknown, path: string): unknown {
+  let value = doc;
+  for (const segment of parsePointer(path)) {
+    if (!isContainer(value)) return undefined;
+    value = Array.isArray(value) ? value[Number(segment)] : value[segment];
+  }
+  return value;
+}
+
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+
+function arrayIndex(array: unknown[], segment: string, allowEnd: boolean, op: JsonPatchOperation): number {
+  if (allowEnd && segment === "-") return array.length;
+  const index = /^(0|[1-9]\d*)$/.test(segment) ? Number(segment) : NaN;
+  if (Number.isNaN(index) || index > array.length || (!allowEnd && index === array.length)) {
+    throw new JsonPatchError(`Array index "${segment}" is out of range`, op);
+  }
+  return index;
+}
+
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+
+function applyOperation(doc: unknown, op: JsonPatchOperation): unknown {
+  const segments = parsePointer(op.path);
+  if (segments.length === 0) {
+    if (op.op === "test") {
+      if (!deepEqual(doc, op.value)) throw new JsonPatchError("Test failed", op);
+      return doc;
+    }
+    if (op.op === "remove") throw new JsonPatchError("Cannot remove the document root", op);
+    return structuredClone(op.value);
+  }
+
+  // walk to the parent of the target
+  let parent: unknown = doc;
+  for (const segment of segments.slice(0, -1)) {
+    if (!isContainer(parent)) throw new JsonPatchError(`Path does not exist`, op);
+    parent = Array.isArray(parent) ? parent[arrayIndex(parent, segment, false, op)] : parent[segment];
+  }
+  if (!isContainer(parent)) throw new JsonPatchError("Path does not exist", op);
+  const last = segments[segments.length - 1];
+
+  if (Array.isArray(parent)) {
+    const index = arrayIndex(parent, last, op.op === "add", op);
+    switch (op.op) {
+      case "add":
+        parent.splice(index, 0, structuredClone(op.value));
+        break;
+      case "remove":
+        parent.splice(index, 1);
+        break;
+      case "replace":
+        parent[index] = structuredClone(op.value);
+        break;
+      case "test":
+        if (!deepEqual(parent[index], op.value)) throw new JsonPatchError("Test failed", op);
+        break;
+    }
+    return doc;
+  }
+
+  const exists = Object.prototype.hasOwnProperty.call(parent, last);
+  switch (op.op) {
+    case "add":
+      parent[last] = structuredClone(op.value);
+      break;
+    case "remove":
+    case "replace":
+      if (!exists) throw new JsonPatchError("Path does not exist", op);
+      if (op.op === "remove") delete parent[last];
+      else parent[last] = structuredClone(op.value);
+      break;
+    case "test":
+      if (!deepEqual(parent[last], op.value)) throw new JsonPatchError("Test failed", op);
+      break;
+  }
+  return doc;
+}
+
+
+// Apply a patch to a copy of the document; throws JsonPatchError and leaves nothing half-applied
+export function applyPatch<T>(doc: T, patch: JsonPatchOperation[]): T {
+  let result: unknown = structuredClone(doc);
+  for (const op of patch) {
+    result = applyOperation(result, op);
+  }
+  return result as T;
+}
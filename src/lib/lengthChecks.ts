@@ -0,0 +1,138 @@
+// length checks: the `length` display property is free-form text read by parseLength
+// (in, ft, mm, cm, m, fractional inches; a bare number is inches). unreadable lengths
+// are errors, conductors must fit their cable, and every length must stay within limits
+//
+// a conductor with its own length runs at least the cable's length and at most the
+// cable's length plus `maxBreakout` (the conductor fanning out past the jacket at the ends)
+
+import { DiagramEdge, getDisplayProperty, isMateEdge } from "./diagram";
+import type { ERCContext, ERCResult, ERCRule } from "./ercTypes";
+import { formatLength, parseLength } from "./units";
+
+export const LENGTH_RULES: ERCRule[] = [
+  {
+    id: "lengthFormat",
+    label: "Length Format",
+    description: "Check that every length is readable (in, ft, mm, cm, m or fractional inches)",
+    severity: "error",
+    category: "metadata",
+    check: checkLengthFormat,
+  },
+  {
+    id: "cableConductorLength",
+    label: "Cable Conductor Lengths",
+    description: "Check that conductor lengths agree with their cable's length",
+    severity: "warning",
+    category: "metadata",
+    params: { maxBreakout: "12 in" },
+    check: checkCableConductorLength,
+  },
+  {
+    id: "lengthLimits",
+    label: "Length Limits",
+    description: "Check that wire and cable lengths stay within a minimum and maximum",
+    severity: "warning",
+    category: "metadata",
+    params: { minLength: "1 in", maxLength: "100 ft" },  // either may be "" for no limit
+    check: checkLengthLimits,
+  },
+];
+
+
+// Edges with a length of their own, as written and in millimetres (null when unreadable)
+function writtenLengths(ctx: ERCContext): { edge: DiagramEdge; text: string; mm: number | null }[] {
+  return ctx.diagram.edges
+    .filter(edge => !isMateEdge(edge))
+    .map(edge => ({ edge, text: getDisplayProperty(edge, "length")?.trim() || "" }))
+    .filter(({ text }) => text !== "")
+    .map(({ edge, text }) => ({ edge, text, mm: parseLength(text) }));
+}
+
+
+// A length rule parameter in millimetres; null when unset or unreadable
+function lengthParam(ctx: ERCContext, ruleId: string, key: string): number | null {
+  const value = ctx.params(ruleId)[key];
+  return parseLength(typeof value === "number" ? String(value) : typeof value === "string" ? value : undefined);
+}
+
+
+// Check that every length that is written can be read
+function checkLengthFormat(ctx: ERCContext): ERCResult[] {
+  return writtenLengths(ctx)
+    .filter(({ mm }) => mm === null)
+    .map(({ edge, text }) => ({
+      ruleId: "lengthFormat",
+      type: "error",
+      edgeIds: [edge.id],
+      message:
+        `Wire "${ctx.index.edgeName(edge.id)}" has length "${text}", which is not a readable length ` +
+        "(e.g. 12 in, 12 1/2\", 2 ft 6 in, 300 mm, 1.5 m).",
+    }));
+}
+
+
+// Check that conductors with their own length are no shorter than their cable and
+// no longer than the cable plus the allowed breakout
+function checkCableConductorLength(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const { index } = ctx;
+  const breakout = lengthParam(ctx, "cableConductorLength", "maxBreakout");
+
+  for (const cable of index.cables) {
+    const cableLength = parseLength(getDisplayProperty(cable, "length"));
+    if (cableLength === null) continue;
+    const cableName = index.edgeName(cable.id);
+
+    for (const edge of index.bundledByCable.get(cable.id) || []) {
+      const length = parseLength(getDisplayProperty(edge, "length"));
+      if (length === null) continue; // inherits the cable's length, or unreadable (lengthFormat)
+
+      const name = index.edgeName(edge.id);
+      let problem: string | null = null;
+      if (length < cableLength) {
+        problem = `is shorter than its cable "${cableName}" (${formatLength(cableLength)})`;
+      } else if (breakout !== null && length > cableLength + breakout) {
+        problem =
+          `is ${formatLength(length - cableLength)} longer than its cable "${cableName}" ` +
+          `(${formatLength(cableLength)}); at most ${formatLength(breakout)} of breakout is allowed`;
+      }
+      if (!problem) continue;
+
+      results.push({
+        ruleId: "cableConductorLength",
+        type: "warning",
+        edgeIds: [edge.id, cable.id],
+        message: `Conductor "${name}" (${formatLength(length)}) ${problem}.`,
+      });
+    }
+  }
+
+  return results;
+}
+
+
+// Check every readable length against the configured minimum and maximum
+function checkLengthLimits(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const min = lengthParam(ctx, "lengthLimits", "minLength");
+  const max = lengthParam(ctx, "lengthLimits", "maxLength");
+  if (min === null && max === null) return results;
+
+  for (const { edge, mm } of writtenLengths(ctx)) {
+    if (mm === null) continue;
+    const limit =
+      min !== null && mm < min ? `below the minimum of ${formatLength(min)}` :
+      max !== null && mm > max ? `above the maximum of ${formatLength(max)}` :
+      null;
+    if (!limit) continue;
+
+    results.push({
+      ruleId: "lengthLimits",
+      type: "warning",
+      edgeIds: [edge.id],
+      message: `Wire "${ctx.index.edgeName(edge.id)}" is ${formatLength(mm)} long, ${limit}.`,
+    });
+  }
+
+  return results;
+}
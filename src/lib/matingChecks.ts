@@ -0,0 +1,92 @@
+// connector checks at the port level: mated ports (mateEdge) must actually mate.
+// handles on the wrong node are structural problems, reported by diagramSchema.ts
+
+import { isMateEdge, Port } from "./diagram";
+import { DiagramIndex, findPort } from "./diagramIndex";
+import type { ERCContext, ERCResult, ERCRule } from "./ercTypes";
+
+export const MATING_RULES: ERCRule[] = [
+  {
+    id: "connectorMating",
+    label: "Connector Mating",
+    description: "Check that mated ports agree on gender, connector family, pin count and keying",
+    severity: "error",
+    category: "connectivity",
+    check: checkConnectorMating,
+  },
+];
+
+const GENDERS: Record<string, "male" | "female" | "genderless"> = {
+  m: "male",
+  male: "male",
+  plug: "male",
+  pin: "male",
+  f: "female",
+  female: "female",
+  receptacle: "female",
+  socket: "female",
+  genderless: "genderless",
+  hermaphroditic: "genderless",
+  sexless: "genderless",
+};
+
+
+function portName(index: DiagramIndex, nodeId: string, port: Port): string {
+  return `${index.nodeName(nodeId)}.${port.name || port.id}`;
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+
+// Check that the two ports of every mate edge can actually mate
+function checkConnectorMating({ diagram, index }: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+
+  for (const edge of diagram.edges) {
+    if (!isMateEdge(edge)) continue;
+    const a = findPort(index, edge.source, edge.sourceHandle);
+    const b = findPort(index, edge.target, edge.targetHandle);
+    if (!a || !b) continue; // unresolved ports are a handle ownership problem
+
+    const names = `${portName(index, edge.source!, a)} ↔ ${portName(index, edge.target!, b)}`;
+    const mismatch = (message: string) =>
+      results.push({
+        ruleId: "connectorMating",
+        type: "error",
+        nodeIds: [edge.source!, edge.target!],
+        edgeIds: [edge.id],
+        message: `Connectors ${names} do not mate: ${message}.`,
+      });
+
+    // gender
+    const genderA = a.gender ? GENDERS[a.gender.trim().toLowerCase()] : undefined;
+    const genderB = b.gender ? GENDERS[b.gender.trim().toLowerCase()] : undefined;
+    if (genderA && genderB) {
+      const mates = genderA === "genderless"
+        ? genderB === "genderless"
+        : genderB !== "genderless" && genderA !== genderB;
+      if (!mates) mismatch(`${a.gender} to ${b.gender}`);
+    }
+
+    // connector family / type
+    if (a.family && b.family && !sameText(a.family, b.family)) {
+      mismatch(`family ${a.family} vs ${b.family}`);
+    }
+
+    // pin count
+    const countA = a.pin_count ?? a.pins.length;
+    const countB = b.pin_count ?? b.pins.length;
+    if (countA !== countB) {
+      mismatch(`${countA} pins vs ${countB} pins`);
+    }
+
+    // keying
+    if (a.keying && b.keying && !sameText(a.keying, b.keying)) {
+      mismatch(`keying ${a.keying} vs ${b.keying}`);
+    }
+  }
+
+  return results;
+}
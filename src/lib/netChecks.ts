@@ -0,0 +1,146 @@
+// net-level rules: these look at whole nets (see connectivity.ts), so they also
+// catch problems that run through bundles, cable conductors and splices
+
+import { isBundledEdge } from "./diagram";
+import type { ERCContext, ERCResult, ERCRule } from "./ercTypes";
+import type { Net } from "./connectivity";
+import { getCompatibility, isSupplyFunction } from "./pinCompatibility";
+
+
+export const NET_RULES: ERCRule[] = [
+  {
+    id: "netFunctionConflict",
+    label: "Net Function Conflicts",
+    description: "Check for nets joining pin functions the compatibility matrix forbids (e.g. PWR and GND)",
+    severity: "error",
+    category: "electrical",
+    check: checkNetFunctionConflicts,
+  },
+  {
+    id: "singlePinNets",
+    label: "Single-Pin Nets",
+    description: "Check for nets that reach only one pin",
+    severity: "warning",
+    category: "connectivity",
+    check: checkSinglePinNets,
+  },
+  {
+    id: "powerReturn",
+    label: "Power Return Paths",
+    description: "Check that every PWR net has a GND return between the same components",
+    severity: "warning",
+    category: "electrical",
+    check: checkPowerReturn,
+  },
+];
+
+
+// Nodes that have a pin with one of these functions on the net
+function nodesWithFunctions(net: Net, fns: string[]): string[] {
+  return [...new Set(net.pins.filter(p => p.function && fns.includes(p.function)).map(p => p.nodeId))];
+}
+
+
+// "A|B" for each pair of functions a single wire on the net joins directly
+function directPairs({ index, pinFunctions }: ERCContext, net: Net): Set<string> {
+  const pairs = new Set<string>();
+  for (const edgeId of net.edgeIds) {
+    const edge = index.edgesById.get(edgeId);
+    if (!edge || isBundledEdge(edge)) continue;
+    const a = edge.sourceHandle ? pinFunctions.get(edge.sourceHandle) : undefined;
+    const b = edge.targetHandle ? pinFunctions.get(edge.targetHandle) : undefined;
+    if (a && b) pairs.add([a, b].sort().join("|"));
+  }
+  return pairs;
+}
+
+
+// Check that no net joins two pin functions that must never share a net
+// a supply pair wired pin to pin (PWR straight to GND) is left to powerConnections, which names the wire
+function checkNetFunctionConflicts(ctx: ERCContext): ERCResult[] {
+  const { nets, compatibility } = ctx;
+  const results: ERCResult[] = [];
+
+  for (const net of nets) {
+    const direct = directPairs(ctx, net);
+    const counts = new Map<string, number>(); // function → pins on the net
+    for (const pin of net.pins) {
+      if (pin.function) counts.set(pin.function, (counts.get(pin.function) || 0) + 1);
+    }
+    const functions = [...counts.keys()].sort();
+
+    // every pair of functions on the net, including a function with itself when it appears twice
+    for (let i = 0; i < functions.length; i++) {
+      for (let j = i; j < functions.length; j++) {
+        const [a, b] = [functions[i], functions[j]];
+        if (a === b && counts.get(a)! < 2) continue;
+        if (direct.has(`${a}|${b}`) && (isSupplyFunction(a, compatibility) || isSupplyFunction(b, compatibility))) continue;
+
+        const { level, reason } = getCompatibility(a, b, compatibility);
+        if (level === "allowed") continue;
+
+        const pins = net.pins
+          .filter(p => p.function === a || p.function === b)
+          .map(p => `${p.label} (${p.function})`)
+          .join(", ");
+        results.push({
+          ruleId: "netFunctionConflict",
+          type: level,
+          nodeIds: nodesWithFunctions(net, [a, b]),
+          edgeIds: net.edgeIds,
+          message: `Net ${net.name} connects ${a} to ${b}${reason ? ` (${reason})` : ""}: ${pins}`,
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+
+// Check for nets that land on a single pin (the other end goes nowhere)
+function checkSinglePinNets({ nets }: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+
+  for (const net of nets) {
+    if (net.pins.length !== 1) continue;
+    results.push({
+      ruleId: "singlePinNets",
+      type: "warning",
+      nodeIds: [net.pins[0].nodeId],
+      edgeIds: net.edgeIds,
+      message: `Net ${net.name} reaches only one pin.`,
+    });
+  }
+
+  return results;
+}
+
+
+// Check that each PWR net has a GND net returning between at least two of the same components
+function checkPowerReturn({ nets }: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const groundNets = nets.filter(net => net.pins.some(p => p.function === "GND"));
+
+  for (const net of nets) {
+    const powered = nodesWithFunctions(net, ["PWR"]);
+    if (powered.length < 2) continue; // a PWR pin on its own is a single-pin net, not a return problem
+
+    const hasReturn = groundNets.some(gnd => {
+      const grounded = nodesWithFunctions(gnd, ["GND"]);
+      return powered.filter(id => grounded.includes(id)).length >= 2;
+    });
+
+    if (!hasReturn) {
+      results.push({
+        ruleId: "powerReturn",
+        type: "warning",
+        nodeIds: powered,
+        edgeIds: net.edgeIds,
+        message: `Power net ${net.name} has no GND return path between the components it feeds.`,
+      });
+    }
+  }
+
+  return results;
+}
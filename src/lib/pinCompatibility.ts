@@ -0,0 +1,206 @@
+// pin-function compatibility matrix: which pin functions may be wired together
+//
+// a matrix is plain JSON (see defaultPinCompatibility.json):
+//   aliases          - alternative spellings mapped to a canonical function ("VCC" → "PWR")
+//   groups           - named sets of functions, referenced in rules as "@name"
+//   supplyFunctions  - functions checked by the power rule; everything else is a signal
+//   differentialPairs - [positive, negative] legs that must travel together
+//   default          - level for pairs no rule covers
+//   rules            - { a, b, level, reason? }, symmetric; a / b are a function, "@group" or "*"
+// the most specific rule wins (function beats group beats "*"); on a tie the later rule wins.
+// a rules file with "extends": "default" is layered on top of the shipped matrix.
+
+import defaultMatrix from "./defaultPinCompatibility.json";
+
+export type CompatibilityLevel = "allowed" | "warning" | "error";
+
+export interface PinCompatibilityRule {
+  a: string;
+  b: string;
+  level: CompatibilityLevel;
+  reason?: string;
+}
+
+export interface PinCompatibilityMatrix {
+  aliases: Record<string, string>;
+  groups: Record<string, string[]>;
+  supplyFunctions: string[];
+  differentialPairs: [string, string][];
+  default: CompatibilityLevel;
+  rules: PinCompatibilityRule[];
+}
+
+export interface Compatibility {
+  level: CompatibilityLevel;
+  reason?: string;
+}
+
+export class PinCompatibilityError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid pin compatibility rules:\n${problems.map(p => `  • ${p}`).join("\n")}`);
+    this.name = "PinCompatibilityError";
+  }
+}
+
+const LEVELS: CompatibilityLevel[] = ["allowed", "warning", "error"];
+
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function canonical(fn: string): string {
+  return fn.trim().toUpperCase();
+}
+
+
+// Parse and validate a compatibility matrix loaded from JSON
+export function parsePinCompatibility(
+  json: unknown,
+  base: PinCompatibilityMatrix | null = null
+): PinCompatibilityMatrix {
+  const problems: string[] = [];
+  if (!isObject(json)) {
+    throw new PinCompatibilityError(["The rules file must be a JSON object."]);
+  }
+
+  let inherited: PinCompatibilityMatrix | null = null;
+  if (json.extends !== undefined) {
+    if (json.extends !== "default") problems.push(`"extends" only supports "default".`);
+    else inherited = base ?? DEFAULT_PIN_COMPATIBILITY;
+  }
+
+  const aliases: Record<string, string> = { ...inherited?.aliases };
+  if (json.aliases !== undefined) {
+    if (!isObject(json.aliases)) {
+      problems.push(`"aliases" must be an object of alias → function.`);
+    } else {
+      for (const [alias, fn] of Object.entries(json.aliases)) {
+        if (typeof fn !== "string") problems.push(`aliases.${alias} must be a string.`);
+        else aliases[canonical(alias)] = canonical(fn);
+      }
+    }
+  }
+
+  const groups: Record<string, string[]> = { ...inherited?.groups };
+  if (json.groups !== undefined) {
+    if (!isObject(json.groups)) {
+      problems.push(`"groups" must be an object of group name → function list.`);
+    } else {
+      for (const [name, fns] of Object.entries(json.groups)) {
+        if (!Array.isArray(fns) || fns.some(f => typeof f !== "string")) {
+          problems.push(`groups.${name} must be an array of function names.`);
+        } else {
+          groups[name] = fns.map(canonical);
+        }
+      }
+    }
+  }
+
+  let supplyFunctions = inherited?.supplyFunctions ?? [];
+  if (json.supplyFunctions !== undefined) {
+    if (!Array.isArray(json.supplyFunctions) || json.supplyFunctions.some(f => typeof f !== "string")) {
+      problems.push(`"supplyFunctions" must be an array of function names.`);
+    } else {
+      supplyFunctions = json.supplyFunctions.map(canonical);
+    }
+  }
+
+  let differentialPairs = inherited?.differentialPairs ?? [];
+  if (json.differentialPairs !== undefined) {
+    const pairs = json.differentialPairs;
+    if (!Array.isArray(pairs) || pairs.some(p => !Array.isArray(p) || p.length !== 2 || p.some(f => typeof f !== "string"))) {
+      problems.push(`"differentialPairs" must be an array of [positive, negative] function pairs.`);
+    } else {
+      differentialPairs = pairs.map(([p, n]) => [canonical(p), canonical(n)]);
+    }
+  }
+
+  let level: CompatibilityLevel = inherited?.default ?? "allowed";
+  if (json.default !== undefined) {
+    if (!LEVELS.includes(json.default as CompatibilityLevel)) {
+      problems.push(`"default" must be one of ${LEVELS.join(", ")}.`);
+    } else {
+      level = json.default as CompatibilityLevel;
+    }
+  }
+
+  const rules: PinCompatibilityRule[] = [...(inherited?.rules ?? [])];
+  if (!Array.isArray(json.rules)) {
+    if (json.rules !== undefined || !inherited) problems.push(`"rules" must be an array.`);
+  } else {
+    json.rules.forEach((rule, i) => {
+      if (!isObject(rule) || typeof rule.a !== "string" || typeof rule.b !== "string") {
+        problems.push(`rules[${i}] needs string "a" and "b" functions.`);
+        return;
+      }
+      for (const side of [rule.a, rule.b]) {
+        if (side.startsWith("@") && !groups[side.slice(1)]) {
+          problems.push(`rules[${i}] refers to unknown group "${side}".`);
+        }
+      }
+      if (!LEVELS.includes(rule.level as CompatibilityLevel)) {
+        problems.push(`rules[${i}].level must be one of ${LEVELS.join(", ")}.`);
+        return;
+      }
+      rules.push({
+        a: rule.a.startsWith("@") || rule.a === "*" ? rule.a : canonical(rule.a),
+        b: rule.b.startsWith("@") || rule.b === "*" ? rule.b : canonical(rule.b),
+        level: rule.level as CompatibilityLevel,
+        reason: typeof rule.reason === "string" ? rule.reason : undefined,
+      });
+    });
+  }
+
+  if (problems.length > 0) throw new PinCompatibilityError(problems);
+  return { aliases, groups, supplyFunctions, differentialPairs, default: level, rules };
+}
+
+
+export const DEFAULT_PIN_COMPATIBILITY: PinCompatibilityMatrix = parsePinCompatibility(defaultMatrix);
+
+
+// Map a pin function to its canonical name ("vcc" → "PWR")
+export function normalizePinFunction(fn: string, matrix: PinCompatibilityMatrix): string {
+  const name = canonical(fn);
+  return matrix.aliases[name] ?? name;
+}
+
+
+export function isSupplyFunction(fn: string, matrix: PinCompatibilityMatrix): boolean {
+  return matrix.supplyFunctions.includes(fn);
+}
+
+
+// how well a rule side matches a function: 2 exact, 1 group, 0 wildcard, -1 no match
+function specificity(side: string, fn: string, matrix: PinCompatibilityMatrix): number {
+  if (side === "*") return 0;
+  if (side.startsWith("@")) return matrix.groups[side.slice(1)]?.includes(fn) ? 1 : -1;
+  return side === fn ? 2 : -1;
+}
+
+
+// Look up how two (normalized) pin functions may be joined
+export function getCompatibility(a: string, b: string, matrix: PinCompatibilityMatrix): Compatibility {
+  let best: Compatibility = { level: matrix.default };
+  let bestScore = -1;
+
+  for (const rule of matrix.rules) {
+    // rules are symmetric, so try both orientations
+    const scores = [
+      [specificity(rule.a, a, matrix), specificity(rule.b, b, matrix)],
+      [specificity(rule.a, b, matrix), specificity(rule.b, a, matrix)],
+    ]
+      .filter(([x, y]) => x >= 0 && y >= 0)
+      .map(([x, y]) => x + y);
+    if (scores.length === 0) continue;
+
+    const score = Math.max(...scores);
+    if (score >= bestScore) {
+      best = { level: rule.level, reason: rule.reason };
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
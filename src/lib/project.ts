@@ -0,0 +1,177 @@
+// project mode: a harness project is many diagram files checked together. each file gets
+// its own ERC report; project rules then look across files (e.g. a reference name used
+// in more than one diagram), and the totals feed the project dashboard
+
+import type { Diagram } from "./diagram";
+import { getDisplayProperty } from "./diagram";
+import { ERCOptions, ERCReport, runERC, Severity } from "./ercEngine";
+import { validateDiagram } from "./diagramSchema";
+import { isZip, readZip } from "./zip";
+
+export interface ProjectFile {
+  name: string;
+  text: string;
+}
+
+export interface ProjectFileResult {
+  name: string;
+  text: string;           // kept so a file can be opened in the editor
+  report: ERCReport | null;
+  error?: string;         // file could not be parsed as JSON
+  errors: number;
+  warnings: number;
+  waived: number;
+}
+
+// a place one project result points at: a file, and elements within it
+export interface ProjectLocation {
+  file: string;
+  nodeIds?: string[];
+  edgeIds?: string[];
+}
+
+export interface ProjectResult {
+  ruleId: string;
+  type: Severity;
+  message: string;
+  locations: ProjectLocation[];
+}
+
+export interface ProjectRule {
+  id: string;
+  label: string;
+  description: string;
+  severity: Severity;
+  check: (files: { name: string; diagram: Diagram }[]) => ProjectResult[];
+}
+
+export interface RuleCount {
+  ruleId: string;
+  count: number;          // results across the project
+  files: number;          // files with at least one
+}
+
+export interface ProjectReport {
+  files: ProjectFileResult[];   // worst first
+  results: ProjectResult[];     // from the project rules
+  ruleCounts: RuleCount[];      // most frequent first
+  totals: { files: number; unreadable: number; errors: number; warnings: number; waived: number };
+}
+
+export const PROJECT_RULES: ProjectRule[] = [
+  {
+    id: "crossFileReferences",
+    label: "Cross-File Reference Names",
+    description: "Check that a reference_name is used in only one diagram of the project",
+    severity: "warning",
+    check: checkCrossFileReferences,
+  },
+];
+
+
+// Check for reference names used in more than one diagram
+function checkCrossFileReferences(files: { name: string; diagram: Diagram }[]): ProjectResult[] {
+  // reference name → file → elements carrying it
+  const uses = new Map<string, Map<string, ProjectLocation>>();
+  const add = (ref: string | undefined, file: string, kind: "nodeIds" | "edgeIds", id: string) => {
+    if (!ref) return;
+    if (!uses.has(ref)) uses.set(ref, new Map());
+    const byFile = uses.get(ref)!;
+    if (!byFile.has(file)) byFile.set(file, { file });
+    const location = byFile.get(file)!;
+    location[kind] = [...(location[kind] || []), id];
+  };
+
+  for (const { name, diagram } of files) {
+    for (const node of diagram.nodes) add(getDisplayProperty(node, "reference_name"), name, "nodeIds", node.id);
+    for (const edge of diagram.edges) add(getDisplayProperty(edge, "reference_name"), name, "edgeIds", edge.id);
+  }
+
+  const results: ProjectResult[] = [];
+  for (const [ref, byFile] of uses) {
+    if (byFile.size < 2) continue;
+    results.push({
+      ruleId: "crossFileReferences",
+      type: "warning",
+      message: `Reference "${ref}" is used in ${byFile.size} diagrams: ${[...byFile.keys()].join(", ")}.`,
+      locations: [...byFile.values()],
+    });
+  }
+  return results;
+}
+
+
+// Uploaded files as project files: JSON files as they are, zips expanded to the JSON
+// files inside them (named "archive.zip/path/in/archive.json")
+export async function readProjectFiles(uploads: File[]): Promise<ProjectFile[]> {
+  const files: ProjectFile[] = [];
+  const decoder = new TextDecoder();
+  for (const upload of uploads) {
+    const data = await upload.arrayBuffer();
+    if (!isZip(data)) {
+      files.push({ name: upload.name, text: decoder.decode(data) });
+      continue;
+    }
+    for (const entry of await readZip(data)) {
+      // skip macOS resource forks and anything that isn't a diagram
+      if (!entry.name.toLowerCase().endsWith(".json") || entry.name.split("/").some(part => part.startsWith("__MACOSX") || part.startsWith("._"))) continue;
+      files.push({ name: `${upload.name}/${entry.name}`, text: decoder.decode(entry.data) });
+    }
+  }
+  return files;
+}
+
+
+function count(report: ERCReport | null, type: Severity): number {
+  return report ? report.results.filter(r => r.type === type).length : 0;
+}
+
+
+// Check every file, then the project as a whole
+export function checkProject(files: ProjectFile[], options: ERCOptions = {}): ProjectReport {
+  const checked: ProjectFileResult[] = [];
+  const diagrams: { name: string; diagram: Diagram }[] = [];
+  for (const { name, text } of files) {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (e) {
+      checked.push({ name, text, report: null, error: e instanceof Error ? e.message : String(e), errors: 0, warnings: 0, waived: 0 });
+      continue;
+    }
+    const report = runERC(json, options);
+    checked.push({ name, text, report, errors: count(report, "error"), warnings: count(report, "warning"), waived: report.waived.length });
+
+    // project rules see only the diagrams that are well-formed
+    const schema = validateDiagram(json);
+    if (schema.valid && schema.diagram) diagrams.push({ name, diagram: schema.diagram });
+  }
+  const results = PROJECT_RULES.flatMap(rule => rule.check(diagrams));
+
+  const counts = new Map<string, RuleCount>();
+  for (const { report } of checked) {
+    for (const ruleId of new Set(report?.results.map(r => r.ruleId))) {
+      const n = report!.results.filter(r => r.ruleId === ruleId).length;
+      const entry = counts.get(ruleId) ?? { ruleId, count: 0, files: 0 };
+      counts.set(ruleId, { ruleId, count: entry.count + n, files: entry.files + 1 });
+    }
+  }
+
+  // unreadable files first, then by errors and warnings
+  const sorted = [...checked].sort((a, b) =>
+    Number(!!b.error) - Number(!!a.error) || b.errors - a.errors || b.warnings - a.warnings || a.name.localeCompare(b.name)
+  );
+
+  return {
+    files: sorted,
+    results,
+    ruleCounts: [...counts.values()].sort((a, b) => b.count - a.count || b.files - a.files),
+    totals: {
+      files: checked.length,
+      unreadable: checked.filter(f => f.error).length,
+      errors: checked.reduce((n, f) => n + f.errors, 0),
+      warnings: checked.reduce((n, f) => n + f.warnings, 0),
+      waived: checked.reduce((n, f) => n + f.waived, 0),
+    },
+  };
+}
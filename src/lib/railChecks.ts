@@ -0,0 +1,192 @@
+// voltage domain checks over whole nets (see connectivity.ts), so a rail is followed
+// through bundles, cable conductors, splices and mated connectors
+//
+// a pin (or its port) names the rail it supplies with `rail` ("+28V_MAIN"), its nominal
+// `voltage`, and a `tolerance` (10, "10%", "0.5V") that gives the range the rail may swing.
+// a pin with a `voltage` but no `rail` is a load, rated for voltage ± tolerance (the
+// railVoltageRange inputTolerancePercent when it has none). ground pins are grouped by
+// reference: their `rail` ("SIG_GND", "PWR_RTN") or else their function (GND, CHASSIS)
+
+import type { Net, NetPin } from "./connectivity";
+import { findPin } from "./diagramIndex";
+import type { ERCContext, ERCResult, ERCRule } from "./ercTypes";
+import { normalizePinFunction } from "./pinCompatibility";
+import { parseTolerance, parseVoltage, Tolerance } from "./units";
+
+export const RAIL_RULES: ERCRule[] = [
+  {
+    id: "railConflict",
+    label: "Rail Conflicts",
+    description: "Check for nets that join two different power rails (e.g. +28V_MAIN and +5V_AUX)",
+    severity: "error",
+    category: "electrical",
+    check: checkRailConflicts,
+  },
+  {
+    id: "railVoltageRange",
+    label: "Rail Voltage Range",
+    description: "Check that every load is rated for the full voltage range of the rail feeding it",
+    severity: "error",
+    category: "electrical",
+    params: { inputTolerancePercent: 10 },
+    check: checkRailVoltageRange,
+  },
+  {
+    id: "groundReferences",
+    label: "Ground References",
+    description: "Check for nets tying distinct ground references together (e.g. signal GND and CHASSIS)",
+    severity: "warning",
+    category: "electrical",
+    params: { groundFunctions: ["GND", "CHASSIS"] },
+    check: checkGroundReferences,
+  },
+];
+
+// a net pin with its rail annotations resolved (pin first, then port)
+interface RailPin {
+  pin: NetPin;
+  ground: boolean;        // a ground reference pin (groundReferences groundFunctions)
+  rail?: string;          // as written
+  voltage: number | null;
+  tolerance: Tolerance | null;
+}
+
+
+function groundFunctions(ctx: ERCContext): string[] {
+  const fns = ctx.params("groundReferences").groundFunctions;
+  return Array.isArray(fns) ? fns.map(fn => normalizePinFunction(fn, ctx.compatibility)) : [];
+}
+
+
+function railPins(ctx: ERCContext, net: Net): RailPin[] {
+  const grounds = groundFunctions(ctx);
+  return net.pins.map(pin => {
+    const owner = findPin(ctx.index, pin.nodeId, pin.pinId);
+    const ground = !!pin.function && grounds.includes(pin.function);
+    // a port's rail and voltage describe its supply pins, not the returns beside them
+    const rail = (ground ? owner?.pin?.rail : owner?.pin?.rail ?? owner?.port.rail)?.trim();
+    return {
+      pin,
+      ground,
+      rail: rail || undefined,
+      voltage: ground ? null : parseVoltage(owner?.pin?.voltage ?? owner?.port.voltage),
+      tolerance: parseTolerance(owner?.pin?.tolerance ?? owner?.port.tolerance),
+    };
+  });
+}
+
+
+// rail name → pins on it, keyed case-insensitively, keeping the first spelling seen
+function groupByName(items: { name: string; pin: NetPin }[]): Map<string, { name: string; pins: NetPin[] }> {
+  const groups = new Map<string, { name: string; pins: NetPin[] }>();
+  for (const { name, pin } of items) {
+    const key = name.toUpperCase();
+    const group = groups.get(key) ?? { name, pins: [] };
+    group.pins.push(pin);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+
+function describeGroups(groups: Map<string, { name: string; pins: NetPin[] }>): string {
+  const parts = [...groups.values()].map(g => `${g.name} (${g.pins.map(p => p.label).join(", ")})`);
+  return `${parts.slice(0, -1).join(", ")} and ${parts[parts.length - 1]}`;
+}
+
+
+// [min, max] volts around a nominal voltage
+function voltageRange(nominal: number, tolerance: Tolerance | null, defaultPercent = 0): [number, number] {
+  const spread = tolerance
+    ? tolerance.percent ? Math.abs(nominal) * tolerance.amount / 100 : tolerance.amount
+    : Math.abs(nominal) * defaultPercent / 100;
+  return [nominal - spread, nominal + spread];
+}
+
+
+function formatRange([min, max]: [number, number]): string {
+  return min === max ? `${+min.toFixed(3)} V` : `${+min.toFixed(3)}–${+max.toFixed(3)} V`;
+}
+
+
+// Check that each net carries at most one power rail (ground references are checked separately)
+function checkRailConflicts(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+
+  for (const net of ctx.nets) {
+    const rails = groupByName(
+      railPins(ctx, net)
+        .filter(p => p.rail && !p.ground)
+        .map(p => ({ name: p.rail!, pin: p.pin }))
+    );
+    if (rails.size < 2) continue;
+
+    results.push({
+      ruleId: "railConflict",
+      type: "error",
+      nodeIds: [...new Set([...rails.values()].flatMap(g => g.pins.map(p => p.nodeId)))],
+      edgeIds: net.edgeIds,
+      message: `Net ${net.name} joins different rails: ${describeGroups(rails)}.`,
+    });
+  }
+
+  return results;
+}
+
+
+// Check that the range of every rail on a net lies inside the rated range of every load on it
+function checkRailVoltageRange(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const defaultPercent = Number(ctx.params("railVoltageRange").inputTolerancePercent) || 0;
+
+  for (const net of ctx.nets) {
+    const pins = railPins(ctx, net);
+    const supplies = pins.filter(p => p.rail && p.voltage !== null);
+    const loads = pins.filter(p => !p.rail && p.voltage !== null);
+
+    for (const supply of supplies) {
+      const railRange = voltageRange(supply.voltage!, supply.tolerance);
+      for (const load of loads) {
+        const rated = voltageRange(load.voltage!, load.tolerance, defaultPercent);
+        if (railRange[0] >= rated[0] && railRange[1] <= rated[1]) continue;
+
+        results.push({
+          ruleId: "railVoltageRange",
+          type: "error",
+          nodeIds: [supply.pin.nodeId, load.pin.nodeId],
+          edgeIds: net.edgeIds,
+          message:
+            `${load.pin.label} is rated ${formatRange(rated)} but is fed from rail ${supply.rail} ` +
+            `(${supply.pin.label}) at ${formatRange(railRange)} on net ${net.name}.`,
+        });
+      }
+    }
+  }
+
+  return results;
+}
+
+
+// Check that no net ties two distinct ground references together
+function checkGroundReferences(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+
+  for (const net of ctx.nets) {
+    const references = groupByName(
+      railPins(ctx, net)
+        .filter(p => p.ground)
+        .map(p => ({ name: p.rail || p.pin.function!, pin: p.pin }))
+    );
+    if (references.size < 2) continue;
+
+    results.push({
+      ruleId: "groundReferences",
+      type: "warning",
+      nodeIds: [...new Set([...references.values()].flatMap(g => g.pins.map(p => p.nodeId)))],
+      edgeIds: net.edgeIds,
+      message: `Net ${net.name} ties ground references ${describeGroups(references)} together, forming a ground loop.`,
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,74 @@
+// terminal summary: errors, warnings, info results, waived results and suggested tests,
+// ANSI-colored unless `color` is off
+
+import type { ReportFile } from "./format";
+
+// add color utility for nicer terminal output
+const ANSI = {
+  red: (t: string) => `\x1b[31m${t}\x1b[0m`,
+  yellow: (t: string) => `\x1b[33m${t}\x1b[0m`,
+  green: (t: string) => `\x1b[32m${t}\x1b[0m`,
+  cyan: (t: string) => `\x1b[36m${t}\x1b[0m`,
+};
+const PLAIN: typeof ANSI = { red: t => t, yellow: t => t, green: t => t, cyan: t => t };
+
+
+export function renderConsole(files: ReportFile[], { color = true }: { color?: boolean } = {}): string {
+  const colors = color ? ANSI : PLAIN;
+  const lines: string[] = [];
+  const log = (line: string) => lines.push(line);
+
+  for (const { file, report } of files) {
+    log(colors.cyan(`\n🔍 ERC: ${file}\n`));
+
+    // a structurally invalid diagram only has schema results, and no rules ran
+    if (report.ruleIds.length === 0 && report.results.some(r => r.type === "error")) {
+      log(colors.red(`\n❌ Diagram structure is invalid (${report.results.length} problem(s)):`));
+      report.results.forEach(r => log(`   • ${colors.red(`${r.path ? `${r.path}: ` : ""}${r.message}`)}\n`));
+      log(colors.cyan("--------------------------------------------------\n"));
+      continue;
+    }
+
+    // improved formatted console summary
+    const errors = report.results.filter(r => r.type === "error");
+    const warnings = report.results.filter(r => r.type === "warning");
+    const infos = report.results.filter(r => r.type === "info");
+
+    if (report.results.length === 0) {
+      log(colors.green("✅ No ERC errors found!\n"));
+    } else {
+      if (errors.length > 0) {
+        log(colors.red(`\n❌ ${errors.length} Error(s):`));
+        errors.forEach(e => log(`   • ${colors.red(e.message)}\n`));
+      }
+      if (warnings.length > 0) {
+        log(colors.yellow(`\n⚠️  ${warnings.length} Warning(s):`));
+        warnings.forEach(w => log(`   • ${colors.yellow(w.message)}\n`));
+      }
+      if (infos.length > 0) {
+        log(colors.cyan(`\nℹ️  ${infos.length} Info:`));
+        infos.forEach(i => log(`   • ${i.message}\n`));
+      }
+    }
+    if (report.waived.length > 0) {
+      log(colors.cyan(`\n🛡️  ${report.waived.length} Waived:`));
+      report.waived.forEach(w => log(`   • ${w.message} — ${w.waiver.reason} (${w.waiver.author}, ${w.waiver.date})\n`));
+    }
+
+    // ------------------------------
+    // Better formatted Suggested Tests
+    // ------------------------------
+    if (report.tests.length > 0) {
+      log(colors.cyan("\n🧰 Suggested Tests:\n"));
+      report.tests.forEach(t => {
+        log(` ${t.id} [${colors.green(t.category)}] ${t.instruction} Expected: ${t.expected}\n`);
+      });
+    } else {
+      log(colors.green("\n✅ No test instructions generated.\n"));
+    }
+
+    log(colors.cyan("--------------------------------------------------\n"));
+  }
+
+  return lines.join("\n");
+}
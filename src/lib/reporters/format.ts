@@ -0,0 +1,80 @@
+// shared pieces for the reporters: the report shape they render and rule metadata lookup.
+// rule metadata comes from the run's registry (getRuleRegistry), so custom rules are named
+// like the built-ins; reporters fall back to the built-in rules when they are not given one
+
+import { ERC_RULES, ERCReport, ERCResult, ERCRule, ERCRuleCategory, Severity } from "../ercEngine";
+import { SCHEMA_RULE_ID } from "../diagramSchema";
+import { WAIVER_RULE_ID } from "../waivers";
+
+// one checked diagram: its file name (or "diagram.json" on the page) and its report
+export interface ReportFile {
+  file: string;
+  report: ERCReport;
+}
+
+export interface RuleInfo {
+  id: string;
+  label: string;
+  description: string;
+  severity: Severity;
+  category: ERCRuleCategory;
+}
+
+// results that don't come from a registry rule still need a name in exported reports
+const BUILT_IN_SOURCES: RuleInfo[] = [
+  {
+    id: SCHEMA_RULE_ID,
+    label: "Diagram Structure",
+    description: "Check that the diagram JSON is well-formed and its references resolve",
+    severity: "error",
+    category: "metadata",
+  },
+  {
+    id: WAIVER_RULE_ID,
+    label: "Stale Waivers",
+    description: "Check that every waiver still matches a result",
+    severity: "warning",
+    category: "metadata",
+  },
+];
+
+// every rule a result can name: built-in sources first, then the registry
+export function listRules(registry: ERCRule[] = ERC_RULES): RuleInfo[] {
+  return [
+    ...BUILT_IN_SOURCES,
+    ...registry.map(({ id, label, description, severity, category }) => ({ id, label, description, severity, category })),
+  ];
+}
+
+export const ALL_RULES: RuleInfo[] = listRules();
+
+
+export function getRuleInfo(ruleId: string, rules: RuleInfo[] = ALL_RULES): RuleInfo {
+  return rules.find(r => r.id === ruleId) ?? {
+    id: ruleId,
+    label: ruleId,
+    description: ruleId,
+    severity: "error",
+    category: "metadata",
+  };
+}
+
+
+// "nodes n1, n2; edges e3" for the elements a result names
+export function describeElements(result: ERCResult): string {
+  const parts: string[] = [];
+  if (result.nodeIds?.length) parts.push(`nodes ${result.nodeIds.join(", ")}`);
+  if (result.edgeIds?.length) parts.push(`edges ${result.edgeIds.join(", ")}`);
+  if (result.path) parts.push(result.path);
+  return parts.join("; ");
+}
+
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,115 @@
+// standalone HTML report: a single file with inline styles, no scripts or external assets,
+// so it can be attached to a review or archived with a harness release
+
+import type { ERCResult, ERCRule } from "../ercEngine";
+import { formatLimits } from "../testPlan";
+import { describeElements, escapeXml as escape, getRuleInfo, listRules, ReportFile, RuleInfo } from "./format";
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2937; background: #f9fafb; }
+  h1 { font-size: 1.5rem; }
+  h2 { font-size: 1.2rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: .25rem; }
+  h3 { font-size: 1rem; margin-top: 1.5rem; }
+  table { border-collapse: collapse; width: 100%; background: #fff; font-size: .875rem; }
+  th, td { border: 1px solid #e5e7eb; padding: .4rem .6rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .error { color: #dc2626; font-weight: 600; }
+  .warning { color: #ca8a04; font-weight: 600; }
+  .info { color: #2563eb; font-weight: 600; }
+  .summary span { margin-right: 1.5rem; }
+  .muted { color: #6b7280; }
+`;
+
+
+function resultRows(results: ERCResult[], rules: RuleInfo[], extra?: (r: ERCResult) => string): string {
+  return results
+    .map(r => {
+      const rule = getRuleInfo(r.ruleId, rules);
+      return (
+        "<tr>" +
+        `<td class="${r.type}">${r.type}</td>` +
+        `<td>${escape(rule.label)}<div class="muted">${escape(r.ruleId)}</div></td>` +
+        `<td>${escape(r.message)}</td>` +
+        `<td class="muted">${escape(describeElements(r))}</td>` +
+        (extra ? `<td>${extra(r)}</td>` : "") +
+        "</tr>"
+      );
+    })
+    .join("\n");
+}
+
+
+export function renderHtml(
+  files: ReportFile[],
+  { generatedAt = new Date(), registry }: { generatedAt?: Date; registry?: ERCRule[] } = {}
+): string {
+  const rules = listRules(registry);
+  const sections = files.map(({ file, report }) => {
+    const count = (type: string) => report.results.filter(r => r.type === type).length;
+    const parts: string[] = [
+      `<h2>${escape(file)}</h2>`,
+      `<p class="summary"><span class="error">${count("error")} error(s)</span>` +
+        `<span class="warning">${count("warning")} warning(s)</span>` +
+        `<span class="info">${count("info")} info</span>` +
+        `<span class="muted">${report.waived.length} waived · ${report.ruleIds.length} rule(s) run · ${report.nets.length} net(s)</span></p>`,
+    ];
+
+    parts.push("<h3>Results</h3>");
+    parts.push(
+      report.results.length === 0
+        ? "<p>✅ No ERC errors found!</p>"
+        : "<table><tr><th>Severity</th><th>Rule</th><th>Message</th><th>Elements</th></tr>\n" +
+            resultRows(report.results, rules) +
+            "</table>"
+    );
+
+    if (report.waived.length > 0) {
+      const waiverOf = new Map(report.waived.map(w => [w as ERCResult, w.waiver]));
+      parts.push("<h3>Waived</h3>");
+      parts.push(
+        "<table><tr><th>Severity</th><th>Rule</th><th>Message</th><th>Elements</th><th>Waiver</th></tr>\n" +
+          resultRows(report.waived, rules, r => {
+            const w = waiverOf.get(r)!;
+            return `${escape(w.reason)}<div class="muted">${escape(w.author)}, ${escape(w.date)}</div>`;
+          }) +
+          "</table>"
+      );
+    }
+
+    if (report.tests.length > 0) {
+      parts.push("<h3>Suggested Tests</h3>");
+      parts.push(
+        "<table><tr><th>Step</th><th>Category</th><th>Procedure</th><th>Expected</th><th>Limits</th></tr>\n" +
+          report.tests
+            .map(t =>
+              "<tr>" +
+              `<td>${escape(t.id)}</td>` +
+              `<td>${escape(t.category)}</td>` +
+              `<td>${escape(t.instruction)}</td>` +
+              `<td>${escape(t.expected)}</td>` +
+              `<td class="muted">${escape(formatLimits(t))}</td>` +
+              "</tr>"
+            )
+            .join("\n") +
+          "</table>"
+      );
+    }
+
+    return parts.join("\n");
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>ERC Report</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>⚡ Artifact ERC Report</h1>
+<p class="muted">Generated ${escape(generatedAt.toISOString())}</p>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
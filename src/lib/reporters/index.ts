@@ -0,0 +1,75 @@
+// reporters turn ERC reports into something to print or download;
+// each one renders a list of checked files to a single string
+// (renderTestRecord is the odd one out: it renders a bench test run, see testRecord.ts)
+
+import { renderConsole } from "./console";
+import { renderHtml } from "./html";
+import { renderJUnit } from "./junit";
+import { renderProcedure } from "./procedure";
+import { renderSarif } from "./sarif";
+import { renderTestRecord } from "./testRecord";
+import type { ERCRule } from "../ercEngine";
+import type { ReportFile } from "./format";
+
+export type { ReportFile, RuleInfo } from "./format";
+export { renderConsole, renderHtml, renderJUnit, renderProcedure, renderSarif, renderTestRecord };
+
+export type ReportFormat = "console" | "json" | "sarif" | "junit" | "html" | "procedure";
+
+export interface Reporter {
+  format: ReportFormat;
+  label: string;
+  extension: string;      // file extension for downloads, without the dot
+  mimeType: string;
+  render: (files: ReportFile[], registry?: ERCRule[]) => string;  // registry: the run's rules, custom ones included
+}
+
+export const REPORTERS: Reporter[] = [
+  {
+    format: "console",
+    label: "Console",
+    extension: "txt",
+    mimeType: "text/plain",
+    render: files => renderConsole(files, { color: false }),  // for files; the CLI colors it on a terminal
+  },
+  {
+    format: "json",
+    label: "JSON",
+    extension: "json",
+    mimeType: "application/json",
+    render: files => JSON.stringify(files.map(({ file, report }) => ({ file, ...report })), null, 2),
+  },
+  {
+    format: "sarif",
+    label: "SARIF",
+    extension: "sarif",
+    mimeType: "application/sarif+json",
+    render: renderSarif,
+  },
+  {
+    format: "junit",
+    label: "JUnit XML",
+    extension: "xml",
+    mimeType: "application/xml",
+    render: renderJUnit,
+  },
+  {
+    format: "html",
+    label: "HTML",
+    extension: "html",
+    mimeType: "text/html",
+    render: (files, registry) => renderHtml(files, { registry }),
+  },
+  {
+    format: "procedure",
+    label: "Test Procedure",
+    extension: "html",
+    mimeType: "text/html",
+    render: files => renderProcedure(files),
+  },
+];
+
+
+export function getReporter(format: string): Reporter | undefined {
+  return REPORTERS.find(r => r.format === format);
+}
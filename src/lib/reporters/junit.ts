@@ -0,0 +1,75 @@
+// JUnit XML, for CI test tabs: one testsuite per diagram file, one testcase per rule.
+// a rule fails when it reports an error; warnings, info and waived results are listed
+// in the testcase output; rules that were not selected are skipped
+
+import { ERC_RULES, ERCResult, ERCRule } from "../ercEngine";
+import { SCHEMA_RULE_ID } from "../diagramSchema";
+import { WAIVER_RULE_ID } from "../waivers";
+import { describeElements, escapeXml, listRules, ReportFile } from "./format";
+
+
+function resultLine(result: ERCResult): string {
+  const where = describeElements(result);
+  return `${result.type.toUpperCase()}: ${result.message}${where ? ` (${where})` : ""}`;
+}
+
+
+export function renderJUnit(files: ReportFile[], registry: ERCRule[] = ERC_RULES): string {
+  const rules = listRules(registry);
+  const suites: string[] = [];
+  let totalTests = 0;
+  let totalFailures = 0;
+
+  for (const { file, report } of files) {
+    const cases: string[] = [];
+    let failures = 0;
+    let skipped = 0;
+
+    for (const rule of rules) {
+      // schema and waiver checks always run
+      const ran = rule.id === SCHEMA_RULE_ID || rule.id === WAIVER_RULE_ID || report.ruleIds.includes(rule.id);
+      const open = `    <testcase classname="${escapeXml(rule.category)}" name="${escapeXml(rule.id)}">`;
+      if (!ran) {
+        skipped++;
+        cases.push(`${open}\n      <skipped message="rule not selected"/>\n    </testcase>`);
+        continue;
+      }
+
+      const results = report.results.filter(r => r.ruleId === rule.id);
+      const waived = report.waived.filter(w => w.ruleId === rule.id);
+      const errors = results.filter(r => r.type === "error");
+      const body: string[] = [];
+
+      if (errors.length > 0) {
+        failures++;
+        body.push(
+          `      <failure message="${escapeXml(`${errors.length} error(s): ${rule.label}`)}" type="error">` +
+            escapeXml(errors.map(resultLine).join("\n")) +
+            "</failure>"
+        );
+      }
+      const notes = [
+        ...results.filter(r => r.type !== "error").map(resultLine),
+        ...waived.map(w => `WAIVED ${resultLine(w)} — ${w.waiver.reason} (${w.waiver.author}, ${w.waiver.date})`),
+      ];
+      if (notes.length > 0) body.push(`      <system-out>${escapeXml(notes.join("\n"))}</system-out>`);
+
+      cases.push(body.length > 0 ? `${open}\n${body.join("\n")}\n    </testcase>` : `${open}</testcase>`);
+    }
+
+    totalTests += rules.length;
+    totalFailures += failures;
+    suites.push(
+      `  <testsuite name="${escapeXml(file)}" tests="${rules.length}" failures="${failures}" errors="0" skipped="${skipped}">\n` +
+        cases.join("\n") +
+        "\n  </testsuite>"
+    );
+  }
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    `<testsuites name="Artifact ERC" tests="${totalTests}" failures="${totalFailures}">\n` +
+    suites.join("\n") +
+    "\n</testsuites>\n"
+  );
+}
@@ -0,0 +1,69 @@
+// printable test procedure: the generated test plan as a sign-off sheet, one table per
+// file with blank Measured and Pass/Fail columns for the technician to fill in
+
+import { formatLimits } from "../testPlan";
+import { escapeXml as escape, ReportFile } from "./format";
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 1.5rem; color: #111827; }
+  h1 { font-size: 1.4rem; margin-bottom: .25rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; }
+  table { border-collapse: collapse; width: 100%; font-size: .8rem; }
+  th, td { border: 1px solid #9ca3af; padding: .3rem .5rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  td.blank { min-width: 5rem; }
+  .muted { color: #6b7280; }
+  .signoff td { height: 1.8rem; }
+  @media print {
+    body { margin: 0; }
+    section { page-break-after: always; }
+    tr { page-break-inside: avoid; }
+  }
+`;
+
+
+export function renderProcedure(files: ReportFile[], { generatedAt = new Date() }: { generatedAt?: Date } = {}): string {
+  const sections = files.map(({ file, report }) => {
+    const rows = report.tests.map(t =>
+      "<tr>" +
+      `<td>${escape(t.id)}</td>` +
+      `<td>${escape(t.category)}</td>` +
+      `<td>${escape(t.instruction)}</td>` +
+      `<td>${escape(t.from ?? "")}</td>` +
+      `<td>${escape(t.to ?? "")}</td>` +
+      `<td>${escape(t.expected)}</td>` +
+      `<td>${escape(formatLimits(t))}</td>` +
+      '<td class="blank"></td><td class="blank"></td>' +
+      "</tr>"
+    );
+
+    return `<section>
+<h2>${escape(file)}</h2>
+<table class="signoff">
+<tr><th>Harness / serial</th><td></td><th>Operator</th><td></td><th>Date</th><td></td></tr>
+<tr><th>Meter</th><td></td><th>Hipot tester</th><td></td><th>Calibration due</th><td></td></tr>
+</table>
+<p class="muted">${report.tests.length} step(s) · ${report.nets.length} net(s) · ${report.results.filter(r => r.type === "error").length} open ERC error(s)</p>
+${rows.length === 0
+  ? "<p>No test steps generated.</p>"
+  : "<table>\n<tr><th>Step</th><th>Category</th><th>Procedure</th><th>From</th><th>To</th><th>Expected</th><th>Limits</th><th>Measured</th><th>Pass / Fail</th></tr>\n" +
+    rows.join("\n") +
+    "\n</table>"}
+</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Test Procedure</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>🧰 Harness Test Procedure</h1>
+<p class="muted">Generated ${escape(generatedAt.toISOString())}</p>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,79 @@
+// SARIF 2.1.0, for code-scanning UIs: one run per export, one artifact per diagram file.
+// diagram elements have no line numbers, so results point at the file and name the
+// nodes / edges as logical locations; waived results are kept as suppressed results
+
+import { ERC_RULES, ERCResult, ERCRule, Severity } from "../ercEngine";
+import { listRules, ReportFile, RuleInfo } from "./format";
+
+const SARIF_LEVEL: Record<Severity, "error" | "warning" | "note"> = {
+  error: "error",
+  warning: "warning",
+  info: "note",
+};
+
+
+function toSarifResult(result: ERCResult, file: string, artifactIndex: number, rules: RuleInfo[]) {
+  const ruleIndex = rules.findIndex(r => r.id === result.ruleId);
+  const logicalLocations = [
+    ...(result.nodeIds || []).map(id => ({ name: id, fullyQualifiedName: `nodes/${id}`, kind: "element" })),
+    ...(result.edgeIds || []).map(id => ({ name: id, fullyQualifiedName: `edges/${id}`, kind: "element" })),
+  ];
+
+  return {
+    ruleId: result.ruleId,
+    ...(ruleIndex >= 0 && { ruleIndex }),
+    level: SARIF_LEVEL[result.type],
+    message: { text: result.message },
+    locations: [
+      {
+        physicalLocation: { artifactLocation: { uri: file, index: artifactIndex } },
+        ...(logicalLocations.length > 0 && { logicalLocations }),
+      },
+    ],
+    ...(result.path && { properties: { jsonPath: result.path } }),
+  };
+}
+
+
+export function renderSarif(files: ReportFile[], registry: ERCRule[] = ERC_RULES): string {
+  const rules = listRules(registry);
+  const results = files.flatMap(({ file, report }, index) => [
+    ...report.results.map(r => toSarifResult(r, file, index, rules)),
+    ...report.waived.map(w => ({
+      ...toSarifResult(w, file, index, rules),
+      suppressions: [
+        {
+          kind: "external",
+          status: "accepted",
+          justification: w.waiver.reason,
+          properties: { author: w.waiver.author, date: w.waiver.date },
+        },
+      ],
+    })),
+  ]);
+
+  const sarif = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "Artifact ERC",
+            rules: rules.map(rule => ({
+              id: rule.id,
+              name: rule.label,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: SARIF_LEVEL[rule.severity] },
+              properties: { category: rule.category },
+            })),
+          },
+        },
+        artifacts: files.map(({ file }) => ({ location: { uri: file } })),
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2);
+}
@@ -0,0 +1,69 @@
+// printable test record: a completed (or in-progress) test run with every reading and
+// verdict, the operator, the diagram revision it was run against and the sign-off
+
+import { formatLimits } from "../testPlan";
+import { summarizeRun, TestRun } from "../testRecord";
+import { escapeXml as escape } from "./format";
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 1.5rem; color: #111827; }
+  h1 { font-size: 1.4rem; margin-bottom: .25rem; }
+  table { border-collapse: collapse; width: 100%; font-size: .8rem; margin-top: 1rem; }
+  th, td { border: 1px solid #9ca3af; padding: .3rem .5rem; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .pass { color: #15803d; font-weight: 600; }
+  .fail { color: #dc2626; font-weight: 600; }
+  .pending { color: #6b7280; }
+  .muted { color: #6b7280; }
+  .draft { color: #dc2626; font-weight: 600; }
+  @media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+`;
+
+
+export function renderTestRecord(run: TestRun, { generatedAt = new Date() }: { generatedAt?: Date } = {}): string {
+  const summary = summarizeRun(run);
+  const rows = run.steps.map(step => {
+    const m = run.measurements[step.id];
+    const verdict = m?.verdict ?? "pending";
+    return (
+      "<tr>" +
+      `<td>${escape(step.id)}</td>` +
+      `<td>${escape(step.instruction)}</td>` +
+      `<td>${escape(step.expected)}</td>` +
+      `<td>${escape(formatLimits(step))}</td>` +
+      `<td>${escape(m?.raw ?? "")}</td>` +
+      `<td class="${verdict}">${verdict.toUpperCase()}${m?.manual ? ' <span class="muted">(operator)</span>' : ""}</td>` +
+      `<td>${escape(m?.note ?? "")}</td>` +
+      `<td class="muted">${escape(m?.measuredAt ?? "")}</td>` +
+      "</tr>"
+    );
+  });
+
+  const signOff = run.signedOffAt
+    ? `Signed off by <strong>${escape(run.signedOffBy ?? "")}</strong> on ${escape(run.signedOffAt)}`
+    : '<span class="draft">DRAFT — not signed off</span>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Test Record ${escape(run.id)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>🧰 Harness Test Record</h1>
+<table>
+<tr><th>Run</th><td>${escape(run.id)}</td><th>Diagram revision</th><td>${escape(run.revision ?? "—")} <span class="muted">(hash ${escape(run.diagramHash)})</span></td></tr>
+<tr><th>Serial</th><td>${escape(run.serial ?? "—")}</td><th>Operator</th><td>${escape(run.operator)}</td></tr>
+<tr><th>Started</th><td>${escape(run.startedAt)}</td><th>Result</th><td><span class="pass">${summary.passed} pass</span> · <span class="fail">${summary.failed} fail</span> · <span class="pending">${summary.pending} pending</span> of ${summary.total}</td></tr>
+</table>
+<table>
+<tr><th>Step</th><th>Procedure</th><th>Expected</th><th>Limits</th><th>Measured</th><th>Verdict</th><th>Note</th><th>Time</th></tr>
+${rows.join("\n")}
+</table>
+<p>${signOff}</p>
+<p class="muted">Generated ${escape(generatedAt.toISOString())}</p>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,212 @@
+// revision diff: run the ERC on a baseline and a revised diagram and compare them
+// results are matched by rule and the elements they name (not by message text, which
+// carries values like lengths that a revision may change), so a reviewer sees what
+// the revision introduced, what it fixed and what it left as it was
+
+import type { Diagram, DiagramEdge, DiagramNode } from "./diagram";
+import { buildDiagramIndex, DiagramIndex } from "./diagramIndex";
+import { validateDiagram } from "./diagramSchema";
+import { ERCOptions, ERCReport, runERC } from "./ercEngine";
+import type { Net } from "./connectivity";
+import type { ERCResult } from "./ercTypes";
+
+export interface RewiredEnd {
+  edgeId: string;
+  name: string;
+  end: "source" | "target";
+  from: string;           // "node.handle" in the baseline
+  to: string;             // "node.handle" in the revision
+}
+
+export interface PropertyChange {
+  kind: "node" | "edge";
+  id: string;
+  name: string;
+  key: string;            // display property key, e.g. "length"
+  from?: string;          // undefined when the property was added
+  to?: string;            // undefined when the property was removed
+}
+
+export interface StructuralDiff {
+  addedNodes: { id: string; name: string }[];
+  removedNodes: { id: string; name: string }[];
+  addedEdges: { id: string; name: string }[];
+  removedEdges: { id: string; name: string }[];
+  rewired: RewiredEnd[];
+  propertyChanges: PropertyChange[];
+}
+
+export interface RevisionDiff {
+  baseline: ERCReport;
+  revision: ERCReport;
+  introduced: ERCResult[];   // only in the revision
+  resolved: ERCResult[];     // only in the baseline
+  persisting: ERCResult[];   // in both (as reported on the revision)
+  severityChanges: { baseline: ERCResult; revision: ERCResult }[];  // persisting, at another severity
+  structure: StructuralDiff | null;  // null when either diagram is structurally invalid
+}
+
+
+// sorted edge ids of each net → its sorted pins, so a result naming every wire of a net is
+// matched by the pins the net joins and not the wires, which a revision may add to
+function netAnchors(nets: Net[]): Map<string, string> {
+  return new Map(nets.map(net => [
+    [...net.edgeIds].sort().join(","),
+    `pins:${net.pins.map(p => `${p.nodeId}:${p.pinId}`).sort().join(",")}`,
+  ]));
+}
+
+
+// rule + element identity (not severity, which a profile change may move); results
+// without elements fall back to their message
+function resultKey(result: ERCResult, nets: Map<string, string>): string {
+  const nodes = [...(result.nodeIds || [])].sort().join(",");
+  const edgeIds = [...(result.edgeIds || [])].sort().join(",");
+  const edges = (edgeIds && nets.get(edgeIds)) || edgeIds;
+  const anchor = nodes || edges || result.path ? `${nodes}|${edges}|${result.path || ""}` : result.message;
+  return `${result.ruleId}|${anchor}`;
+}
+
+
+// Run the ERC on both diagrams and compare results and structure
+export function diffRevisions(baselineInput: unknown, revisionInput: unknown, options: ERCOptions = {}): RevisionDiff {
+  // progress covers both runs: the baseline is the first half, the revision the second
+  const { onProgress } = options;
+  const half = (first: boolean): ERCOptions["onProgress"] =>
+    onProgress && (p => onProgress({ done: (first ? 0 : p.total) + p.done, total: p.total * 2, step: p.step }));
+  const baseline = runERC(baselineInput, { ...options, onProgress: half(true) });
+  const revision = runERC(revisionInput, { ...options, onProgress: half(false) });
+
+  // the same key can occur more than once (e.g. two identical duplicate-name results)
+  const baselineNets = netAnchors(baseline.nets);
+  const revisionNets = netAnchors(revision.nets);
+  const remaining = new Map<string, ERCResult[]>();
+  for (const result of baseline.results) {
+    const key = resultKey(result, baselineNets);
+    remaining.set(key, [...(remaining.get(key) || []), result]);
+  }
+
+  const introduced: ERCResult[] = [];
+  const persisting: ERCResult[] = [];
+  const severityChanges: RevisionDiff["severityChanges"] = [];
+  for (const result of revision.results) {
+    const matches = remaining.get(resultKey(result, revisionNets));
+    if (matches && matches.length > 0) {
+      // prefer a baseline result at the same severity
+      const i = Math.max(0, matches.findIndex(m => m.type === result.type));
+      const [match] = matches.splice(i, 1);
+      persisting.push(result);
+      if (match.type !== result.type) severityChanges.push({ baseline: match, revision: result });
+    } else {
+      introduced.push(result);
+    }
+  }
+  const resolved = [...remaining.values()].flat();
+
+  const before = validateDiagram(baselineInput).diagram;
+  const after = validateDiagram(revisionInput).diagram;
+  const structure = before && after ? diffStructure(before, after) : null;
+
+  return { baseline, revision, introduced, resolved, persisting, severityChanges, structure };
+}
+
+
+// Added / removed nodes and edges, rewired edge ends and changed display properties
+export function diffStructure(before: Diagram, after: Diagram): StructuralDiff {
+  const diff: StructuralDiff = {
+    addedNodes: [],
+    removedNodes: [],
+    addedEdges: [],
+    removedEdges: [],
+    rewired: [],
+    propertyChanges: [],
+  };
+
+  const old = buildDiagramIndex(before);
+  const next = buildDiagramIndex(after);
+
+  for (const node of after.nodes) {
+    const previous = old.nodesById.get(node.id);
+    if (!previous) {
+      diff.addedNodes.push({ id: node.id, name: next.nodeName(node.id) });
+      continue;
+    }
+    diff.propertyChanges.push(...diffProperties("node", node.id, next.nodeName(node.id), previous, node));
+  }
+  for (const node of before.nodes) {
+    if (!next.nodesById.has(node.id)) diff.removedNodes.push({ id: node.id, name: old.nodeName(node.id) });
+  }
+
+  for (const edge of after.edges) {
+    const previous = old.edgesById.get(edge.id);
+    const name = next.edgeName(edge.id);
+    if (!previous) {
+      diff.addedEdges.push({ id: edge.id, name });
+      continue;
+    }
+
+    for (const end of ["source", "target"] as const) {
+      // compared by node id and handle; a renamed node is a property change, not a rewire
+      const handle = end === "source" ? "sourceHandle" : "targetHandle";
+      if ((previous[end] ?? null) === (edge[end] ?? null) && (previous[handle] ?? null) === (edge[handle] ?? null)) continue;
+      diff.rewired.push({ edgeId: edge.id, name, end, from: describeEnd(old, previous, end), to: describeEnd(next, edge, end) });
+    }
+    diff.propertyChanges.push(...diffProperties("edge", edge.id, name, previous, edge));
+  }
+  for (const edge of before.edges) {
+    if (!next.edgesById.has(edge.id)) diff.removedEdges.push({ id: edge.id, name: old.edgeName(edge.id) });
+  }
+
+  return diff;
+}
+
+
+// "J1.J1-3" for an edge end, or "unconnected"
+function describeEnd(index: DiagramIndex, edge: DiagramEdge, end: "source" | "target"): string {
+  const nodeId = edge[end];
+  const handle = end === "source" ? edge.sourceHandle : edge.targetHandle;
+  if (!nodeId) return "unconnected";
+  const node = index.nodeName(nodeId);
+  return handle ? `${node}.${handle}` : node;
+}
+
+
+function diffProperties(
+  kind: "node" | "edge",
+  id: string,
+  name: string,
+  before: DiagramNode | DiagramEdge,
+  after: DiagramNode | DiagramEdge
+): PropertyChange[] {
+  const toMap = (item: DiagramNode | DiagramEdge) =>
+    new Map((item.data?.display_properties || []).map(p => [p.key, p.value ?? ""]));
+  const oldProps = toMap(before);
+  const newProps = toMap(after);
+
+  const changes: PropertyChange[] = [];
+  for (const key of new Set([...oldProps.keys(), ...newProps.keys()])) {
+    const from = oldProps.get(key);
+    const to = newProps.get(key);
+    if (from !== to) changes.push({ kind, id, name, key, from, to });
+  }
+  return changes;
+}
+
+
+// One line per structural change, for display
+export function describeStructuralDiff(diff: StructuralDiff): string[] {
+  return [
+    ...diff.addedNodes.map(n => `+ node ${n.name}`),
+    ...diff.removedNodes.map(n => `- node ${n.name}`),
+    ...diff.addedEdges.map(e => `+ edge ${e.name}`),
+    ...diff.removedEdges.map(e => `- edge ${e.name}`),
+    ...diff.rewired.map(r => `~ ${r.name} ${r.end}: ${r.from} → ${r.to}`),
+    ...diff.propertyChanges.map(c =>
+      c.from === undefined
+        ? `~ ${c.kind} ${c.name} ${c.key}: added "${c.to}"`
+        : c.to === undefined
+          ? `~ ${c.kind} ${c.name} ${c.key}: removed "${c.from}"`
+          : `~ ${c.kind} ${c.name} ${c.key}: "${c.from}" → "${c.to}"`
+    ),
+  ];
+}
@@ -0,0 +1,292 @@
+// rule profiles: named rule configurations for a project or a stage of one
+// ("prototype", "production release"). a profile turns rules on or off, overrides the
+// severity of their results, sets their parameters and can ignore results that only
+// involve certain node types. profiles are plain JSON:
+//
+// { "name": "production release",
+//   "description": "Everything on; missing metadata blocks release",
+//   "defaultEnabled": true,
+//   "rules": {
+//     "missingPartNames": { "severity": "error" },
+//     "diffPairLength":   { "params": { "tolerancePercent": 2 } },
+//     "floatingWires":    { "ignoreNodeTypes": ["testPoint"] },
+//     "wireGaugeMissing": { "enabled": false } } }
+//
+// rules a profile does not mention follow `defaultEnabled` (true when omitted) and keep
+// their registry severity and parameters
+
+import type { DiagramNode } from "./diagram";
+import type { ERCParamValue, ERCResult, ERCRule, ERCRuleParams, Severity } from "./ercTypes";
+
+export interface RuleSetting {
+  enabled?: boolean;
+  severity?: Severity;        // every result of the rule is reported at this severity
+  params?: ERCRuleParams;     // merged over the rule's defaults
+  ignoreNodeTypes?: string[]; // drop results that only involve nodes of these types
+}
+
+export interface RuleProfile {
+  name: string;
+  description?: string;
+  defaultEnabled?: boolean;
+  rules: Record<string, RuleSetting>;   // rule id → setting
+}
+
+export interface RuleProfileProblem {
+  path: string;
+  message: string;
+}
+
+export class RuleProfileError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid rule profile:\n${problems.map(p => `  • ${p}`).join("\n")}`);
+    this.name = "RuleProfileError";
+  }
+}
+
+const SEVERITIES: Severity[] = ["error", "warning", "info"];
+const STORAGE_KEY = "artifact-erc.ruleProfiles";
+const ACTIVE_KEY = "artifact-erc.activeProfile";
+
+// shipped profiles; saved profiles with the same name take their place
+export const BUILTIN_PROFILES: RuleProfile[] = [
+  {
+    name: "default",
+    description: "Every rule at its registry severity",
+    rules: {},
+  },
+  {
+    name: "prototype",
+    description: "Every rule on; missing part names, lengths and gauges are informational and orphan components only warn",
+    rules: {
+      missingPartNames: { severity: "info" },
+      missingLengths: { severity: "info" },
+      wireGaugeMissing: { severity: "info" },
+      orphanComponents: { severity: "warning" },
+    },
+  },
+  {
+    name: "production release",
+    description: "Everything on; missing part numbers, lengths and gauges block release",
+    rules: {
+      missingPartNames: { severity: "error" },
+      missingLengths: { severity: "error" },
+      wireGaugeMissing: { severity: "error" },
+      wireVoltageDrop: { severity: "error" },
+      diffPairLength: { params: { tolerancePercent: 2 } },
+    },
+  },
+];
+
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+
+function isParamValue(value: unknown): value is ERCParamValue {
+  return ["number", "string", "boolean"].includes(typeof value) ||
+    (Array.isArray(value) && value.every(v => typeof v === "string")) ||
+    (isObject(value) && Object.values(value).every(v => typeof v === "string"));
+}
+
+
+// what a parameter's value must be, for matching overrides against defaults and for messages
+function paramKind(value: ERCParamValue): string {
+  return Array.isArray(value) ? "list of strings" : typeof value === "object" ? "map of strings" : typeof value;
+}
+
+
+// Problems with one profile (empty when it is usable); `rules` is the registry to check against
+export function checkRuleProfile(value: unknown, rules: ERCRule[], path = "profile"): RuleProfileProblem[] {
+  if (!isObject(value)) return [{ path, message: "Profile must be an object." }];
+  const problems: RuleProfileProblem[] = [];
+  const problem = (at: string, message: string) => problems.push({ path: at, message });
+
+  if (typeof value.name !== "string" || value.name.trim() === "") problem(`${path}.name`, "Profile needs a name.");
+  if (value.description !== undefined && typeof value.description !== "string") {
+    problem(`${path}.description`, "Must be a string.");
+  }
+  if (value.defaultEnabled !== undefined && typeof value.defaultEnabled !== "boolean") {
+    problem(`${path}.defaultEnabled`, "Must be true or false.");
+  }
+  if (!isObject(value.rules)) {
+    problem(`${path}.rules`, "Must be an object of rule id → setting.");
+    return problems;
+  }
+
+  for (const [id, setting] of Object.entries(value.rules)) {
+    const at = `${path}.rules.${id}`;
+    const rule = rules.find(r => r.id === id);
+    if (!rule) {
+      problem(at, `Unknown rule "${id}".`);
+      continue;
+    }
+    if (!isObject(setting)) {
+      problem(at, "Must be an object.");
+      continue;
+    }
+    if (setting.enabled !== undefined && typeof setting.enabled !== "boolean") {
+      problem(`${at}.enabled`, "Must be true or false.");
+    }
+    if (setting.severity !== undefined && !SEVERITIES.includes(setting.severity as Severity)) {
+      problem(`${at}.severity`, `Must be one of ${SEVERITIES.join(", ")}.`);
+    }
+    if (setting.ignoreNodeTypes !== undefined &&
+        (!Array.isArray(setting.ignoreNodeTypes) || setting.ignoreNodeTypes.some(t => typeof t !== "string"))) {
+      problem(`${at}.ignoreNodeTypes`, "Must be a list of node types.");
+    }
+    if (setting.params !== undefined) {
+      if (!isObject(setting.params)) {
+        problem(`${at}.params`, "Must be an object.");
+        continue;
+      }
+      problems.push(...checkRuleParams(rule, setting.params, `${at}.params`));
+    }
+  }
+  return problems;
+}
+
+
+// Problems with parameter overrides for one rule: each must be a parameter the rule has,
+// of the same type as its default
+export function checkRuleParams(rule: ERCRule, params: Record<string, unknown>, path: string): RuleProfileProblem[] {
+  const problems: RuleProfileProblem[] = [];
+  for (const [key, param] of Object.entries(params)) {
+    const fallback = rule.params?.[key];
+    if (fallback === undefined) {
+      const known = Object.keys(rule.params || {});
+      problems.push({ path: `${path}.${key}`, message: `${rule.id} has ${known.length ? `parameters ${known.join(", ")}` : "no parameters"}.` });
+    } else if (!isParamValue(param) || paramKind(param) !== paramKind(fallback)) {
+      problems.push({ path: `${path}.${key}`, message: `Must be a ${paramKind(fallback)}.` });
+    }
+  }
+  return problems;
+}
+
+
+// Parse a profile file: one profile, a list of them, or { "profiles": [...] }
+export function parseRuleProfiles(json: unknown, rules: ERCRule[]): RuleProfile[] {
+  const list = isObject(json) && Array.isArray(json.profiles) ? json.profiles : Array.isArray(json) ? json : [json];
+  const problems = list.flatMap((p, i) => checkRuleProfile(p, rules, list.length > 1 ? `profiles[${i}]` : "profile"));
+  if (problems.length > 0) throw new RuleProfileError(problems.map(p => `${p.path}: ${p.message}`));
+  return list as RuleProfile[];
+}
+
+
+export function isRuleEnabled(profile: RuleProfile, ruleId: string): boolean {
+  return profile.rules[ruleId]?.enabled ?? profile.defaultEnabled ?? true;
+}
+
+
+// Severity the profile reports a rule's results at
+export function getRuleSeverity(profile: RuleProfile, rule: ERCRule): Severity {
+  return profile.rules[rule.id]?.severity ?? rule.severity;
+}
+
+
+// Copy of a profile with one rule's setting changed; settings that match the
+// defaults are dropped, so exported profiles only list real overrides
+export function updateRuleSetting(profile: RuleProfile, rule: ERCRule, change: RuleSetting): RuleProfile {
+  const setting: RuleSetting = { ...profile.rules[rule.id], ...change };
+  if (setting.enabled === (profile.defaultEnabled ?? true)) delete setting.enabled;
+  if (setting.severity === rule.severity) delete setting.severity;
+  if (setting.params) {
+    const params = Object.fromEntries(
+      Object.entries(setting.params).filter(([k, v]) => JSON.stringify(v) !== JSON.stringify(rule.params?.[k]))
+    );
+    if (Object.keys(params).length > 0) setting.params = params;
+    else delete setting.params;
+  }
+  if (setting.ignoreNodeTypes?.length === 0) delete setting.ignoreNodeTypes;
+
+  const rules = { ...profile.rules };
+  if (Object.keys(setting).length > 0) rules[rule.id] = setting;
+  else delete rules[rule.id];
+  return { ...profile, rules };
+}
+
+
+// Apply a rule's profile setting to its results: drop ignored node types, override severity
+export function applyRuleSetting(
+  results: ERCResult[],
+  setting: RuleSetting | undefined,
+  nodesById: Map<string, DiagramNode>,
+  edgeEnds: Map<string, (string | undefined)[]>
+): ERCResult[] {
+  if (!setting) return results;
+  const ignored = new Set(setting.ignoreNodeTypes || []);
+  const isIgnoredNode = (id: string | undefined) => !!id && ignored.has(nodesById.get(id)?.type ?? "component");
+
+  return results
+    .filter(result => {
+      if (ignored.size === 0) return true;
+      const nodeIds = result.nodeIds || [];
+      const edgeIds = result.edgeIds || [];
+      if (nodeIds.length === 0 && edgeIds.length === 0) return true;
+      // an edge counts as ignored when either of its ends is on an ignored node
+      return !(nodeIds.every(isIgnoredNode) && edgeIds.every(id => (edgeEnds.get(id) || []).some(isIgnoredNode)));
+    })
+    .map(result => (setting.severity ? { ...result, type: setting.severity } : result));
+}
+
+
+// ---------------------------------------------------------------------------
+// browser storage: saved profiles and the one in use
+
+export function loadSavedProfiles(rules: ERCRule[]): RuleProfile[] {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    return parseRuleProfiles(JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]"), rules);
+  } catch {
+    return [];
+  }
+}
+
+
+// Built-in profiles followed by saved ones; a saved profile replaces a built-in of the same name
+export function listProfiles(saved: RuleProfile[]): RuleProfile[] {
+  const names = new Set(saved.map(p => p.name));
+  return [...BUILTIN_PROFILES.filter(p => !names.has(p.name)), ...saved];
+}
+
+
+export function saveProfile(profile: RuleProfile, rules: ERCRule[]): RuleProfile[] {
+  const saved = [...loadSavedProfiles(rules).filter(p => p.name !== profile.name), profile];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  return saved;
+}
+
+
+export function deleteProfile(name: string, rules: ERCRule[]): RuleProfile[] {
+  const saved = loadSavedProfiles(rules).filter(p => p.name !== name);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(saved));
+  return saved;
+}
+
+
+// The working profile is kept as a whole, unsaved edits included. the raw stored text
+// is the snapshot for React's useSyncExternalStore (undefined while server rendering)
+export function getActiveProfileSnapshot(): string | null | undefined {
+  return typeof localStorage === "undefined" ? undefined : localStorage.getItem(ACTIVE_KEY);
+}
+
+
+export function subscribeToProfileStorage(onChange: () => void): () => void {
+  window.addEventListener("storage", onChange);
+  return () => window.removeEventListener("storage", onChange);
+}
+
+
+export function parseActiveProfile(text: string | null, rules: ERCRule[]): RuleProfile | null {
+  try {
+    return parseRuleProfiles(JSON.parse(text || "null"), rules)[0];
+  } catch {
+    return null;
+  }
+}
+
+
+export function saveActiveProfile(profile: RuleProfile) {
+  localStorage.setItem(ACTIVE_KEY, JSON.stringify(profile));
+}
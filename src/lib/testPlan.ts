@@ -0,0 +1,305 @@
+// test procedure generation: numbered, measurable steps for the bench, built from the
+// extracted nets and pin functions
+//
+//   CT  continuity   - end to end, from the first pin of each net to every other pin
+//   IR  isolation    - hipot / insulation resistance between adjacent nets: nets on
+//                      neighbouring pins of a port, and nets that share a cable
+//   PV  power        - rail voltage at each component on a power net, against its ground
+//   SH  shield       - shield / drain termination to chassis
+//   MV  mechanical   - wire and cable lengths
+// every step carries an expected value with numeric limits, so it can be printed as a
+// procedure (see reporters/procedure.ts) and filled in by hand
+
+import { DiagramEdge, getDisplayProperty, isBundledEdge } from "./diagram";
+import { DiagramIndex, findPin } from "./diagramIndex";
+import { getConductorGauge, getConductorLength, getNetLoads, Net, NetPin } from "./connectivity";
+import type { ERCContext, TestCategory, TestInstruction } from "./ercTypes";
+import { formatLength, parseVoltage } from "./units";
+import { resistancePerMetre } from "./wireGauge";
+
+export interface TestPlanOptions {
+  continuityMaxOhms: number;        // floor for the continuity limit
+  hipotVoltage: number;             // test voltage for isolation steps, VDC
+  insulationMinMegohms: number;
+  voltageTolerancePercent: number;  // power rail band around the nominal voltage
+  shieldMaxOhms: number;            // shield to chassis bond
+  lengthTolerancePercent: number;
+}
+
+export const DEFAULT_TEST_PLAN_OPTIONS: TestPlanOptions = {
+  continuityMaxOhms: 1,
+  hipotVoltage: 500,
+  insulationMinMegohms: 100,
+  voltageTolerancePercent: 5,
+  shieldMaxOhms: 0.1,
+  lengthTolerancePercent: 5,
+};
+
+const STEP_PREFIX: Record<TestCategory, string> = {
+  continuity: "CT",
+  isolation: "IR",
+  power: "PV",
+  shield: "SH",
+  mechanical: "MV",
+};
+
+// continuity limits allow this much over the computed copper resistance
+const WIRE_RESISTANCE_MARGIN = 1.25;
+
+type Step = Omit<TestInstruction, "id">;
+type TestPlanContext = Pick<ERCContext, "diagram" | "index" | "nets" | "compatibility">;
+
+
+// Round to a few significant figures for limits and printed values
+function round(value: number): number {
+  return +value.toPrecision(3);
+}
+
+
+// Pin functions in one of the matrix groups (falling back to the shipped names)
+function functionsIn(ctx: Pick<ERCContext, "compatibility">, group: string, fallback: string[]): Set<string> {
+  return new Set(ctx.compatibility.groups[group] ?? fallback);
+}
+
+
+function netEdges(index: DiagramIndex, net: Net): DiagramEdge[] {
+  return net.edgeIds
+    .map(id => index.edgesById.get(id))
+    .filter((e): e is DiagramEdge => e !== undefined);
+}
+
+
+// Copper resistance of a whole net in Ω, or null when a gauge or length is missing
+function netResistance(index: DiagramIndex, net: Net): number | null {
+  let total = 0;
+  for (const edge of netEdges(index, net)) {
+    const gauge = getConductorGauge(index, edge);
+    const length = getConductorLength(index, edge);
+    if (!gauge || length === null) return null;
+    total += resistancePerMetre(gauge) * (length / 1000);
+  }
+  return total;
+}
+
+
+// End-to-end continuity: the first pin of the net to each of the others
+function continuitySteps(index: DiagramIndex, nets: Net[], options: TestPlanOptions): Step[] {
+  const steps: Step[] = [];
+  for (const net of nets) {
+    if (net.pins.length < 2) continue;
+    const copper = netResistance(index, net);
+    const max = round(Math.max(options.continuityMaxOhms, (copper ?? 0) * WIRE_RESISTANCE_MARGIN));
+    const [first, ...others] = net.pins;
+    for (const pin of others) {
+      steps.push({
+        category: "continuity",
+        instruction: `Measure resistance from ${first.label} to ${pin.label} (net ${net.name}).`,
+        from: first.label,
+        to: pin.label,
+        expected: `≤ ${max} Ω`,
+        limits: { max },
+        unit: "Ω",
+        netIds: [net.id],
+        nodeIds: [first.nodeId, pin.nodeId],
+        edgeIds: net.edgeIds,
+      });
+    }
+  }
+  return steps;
+}
+
+
+// Pairs of nets that could short into each other: neighbouring pins of a port, and
+// conductors in the same cable
+function adjacentNetPairs(index: DiagramIndex, nets: Net[]): [Net, Net][] {
+  const netOfPin = new Map<string, Net>(); // `${nodeId}:${pinId}` → net
+  for (const net of nets) {
+    for (const pin of net.pins) netOfPin.set(`${pin.nodeId}:${pin.pinId}`, net);
+  }
+  const netOfEdge = new Map<string, Net>();
+  for (const net of nets) {
+    for (const id of net.edgeIds) netOfEdge.set(id, net);
+  }
+
+  const position = new Map(nets.map((net, i) => [net, i]));
+  const order = (net: Net) => position.get(net)!;
+  const pairs = new Map<string, [Net, Net]>();
+  const addPair = (a: Net | undefined, b: Net | undefined) => {
+    if (!a || !b || a === b) return;
+    const [x, y] = order(a) < order(b) ? [a, b] : [b, a];
+    pairs.set(`${x.id}|${y.id}`, [x, y]);
+  };
+
+  for (const node of index.diagram.nodes) {
+    for (const port of node.data?.ports || []) {
+      for (let i = 1; i < port.pins.length; i++) {
+        addPair(netOfPin.get(`${node.id}:${port.pins[i - 1].id}`), netOfPin.get(`${node.id}:${port.pins[i].id}`));
+      }
+    }
+  }
+
+  for (const cable of index.cables) {
+    const cableNets = [...new Set(
+      (index.bundledByCable.get(cable.id) || [])
+        .map(e => netOfEdge.get(e.id))
+        .filter((n): n is Net => n !== undefined)
+    )];
+    for (let i = 0; i < cableNets.length; i++) {
+      for (let j = i + 1; j < cableNets.length; j++) addPair(cableNets[i], cableNets[j]);
+    }
+  }
+
+  return [...pairs.values()].sort((a, b) => order(a[0]) - order(b[0]) || order(a[1]) - order(b[1]));
+}
+
+
+// Insulation resistance between every pair of adjacent nets, at the hipot voltage
+function isolationSteps(index: DiagramIndex, nets: Net[], options: TestPlanOptions): Step[] {
+  return adjacentNetPairs(index, nets)
+    .filter(([a, b]) => a.pins.length > 0 && b.pins.length > 0)
+    .map(([a, b]): Step => ({
+      category: "isolation",
+      instruction: `Apply ${options.hipotVoltage} VDC between net ${a.name} (${a.pins[0].label}) and net ${b.name} (${b.pins[0].label}) for 60 s; measure insulation resistance.`,
+      from: a.pins[0].label,
+      to: b.pins[0].label,
+      expected: `≥ ${options.insulationMinMegohms} MΩ at ${options.hipotVoltage} VDC`,
+      limits: { min: options.insulationMinMegohms },
+      unit: "MΩ",
+      netIds: [a.id, b.id],
+      nodeIds: [a.pins[0].nodeId, b.pins[0].nodeId],
+    }));
+}
+
+
+// Rail voltage at each component on a power net, measured against that component's
+// ground pin (or the first ground pin anywhere when it has none). the expected value is
+// the pin's own voltage (pin, then port), or the net's highest when it has none
+function powerSteps(ctx: TestPlanContext, options: TestPlanOptions): Step[] {
+  const power = functionsIn(ctx, "power", ["PWR"]);
+  const ground = functionsIn(ctx, "ground", ["GND"]);
+  const loads = getNetLoads(ctx.diagram, ctx.nets);
+  const groundPins = ctx.nets.flatMap(n => n.pins).filter(p => p.function && ground.has(p.function));
+  const steps: Step[] = [];
+
+  for (const net of ctx.nets) {
+    const railPins = net.pins.filter(p => p.function && power.has(p.function));
+    if (railPins.length === 0) continue;
+    const netVoltage = loads.get(net)?.voltage ?? null;
+    const seen = new Set<string>();
+
+    for (const pin of railPins) {
+      if (seen.has(pin.nodeId)) continue;
+      seen.add(pin.nodeId);
+      const owner = findPin(ctx.index, pin.nodeId, pin.pinId);
+      const pinVoltage = parseVoltage(owner?.pin?.voltage ?? owner?.port.voltage);
+      const voltage = pinVoltage !== null ? Math.abs(pinVoltage) : netVoltage;
+      const reference = groundPins.find(g => g.nodeId === pin.nodeId) ?? groundPins[0];
+      const tolerance = voltage !== null ? Math.abs(voltage) * options.voltageTolerancePercent / 100 : null;
+      steps.push({
+        category: "power",
+        instruction: `With the supply energized, measure DC voltage at ${pin.label} (net ${net.name}) against ${reference?.label ?? "supply return"}.`,
+        from: pin.label,
+        to: reference?.label,
+        expected: voltage !== null
+          ? `${voltage} V ± ${options.voltageTolerancePercent}%`
+          : "Nominal supply voltage (not annotated)",
+        limits: voltage !== null && tolerance !== null
+          ? { min: round(voltage - tolerance), max: round(voltage + tolerance) }
+          : {},
+        unit: "V",
+        netIds: [net.id],
+        nodeIds: reference ? [pin.nodeId, reference.nodeId] : [pin.nodeId],
+      });
+    }
+  }
+  return steps;
+}
+
+
+// Shield and drain pins must be bonded to chassis; where the shield's net reaches a
+// chassis pin that is the reference, otherwise the enclosure / backshell is
+function shieldSteps(ctx: Pick<ERCContext, "nets" | "compatibility">, options: TestPlanOptions): Step[] {
+  const shieldGroup = functionsIn(ctx, "shield", ["SHIELD", "CHASSIS"]);
+  const isChassis = (p: NetPin) => p.function === "CHASSIS";
+  const isShield = (p: NetPin) => !!p.function && shieldGroup.has(p.function) && !isChassis(p);
+  const steps: Step[] = [];
+
+  for (const net of ctx.nets) {
+    const chassis = net.pins.find(isChassis);
+    for (const pin of net.pins.filter(isShield)) {
+      const to = chassis?.label ?? "chassis (connector backshell)";
+      steps.push({
+        category: "shield",
+        instruction: `Measure resistance from shield ${pin.label} to ${to}.`,
+        from: pin.label,
+        to,
+        expected: `≤ ${options.shieldMaxOhms} Ω`,
+        limits: { max: options.shieldMaxOhms },
+        unit: "Ω",
+        netIds: [net.id],
+        nodeIds: chassis ? [pin.nodeId, chassis.nodeId] : [pin.nodeId],
+      });
+    }
+  }
+  return steps;
+}
+
+
+// Cut length of each wire and cable; conductors inside a cable go with the cable
+function mechanicalSteps(index: DiagramIndex, options: TestPlanOptions): Step[] {
+  const steps: Step[] = [];
+  const items = [
+    ...index.conductors.filter(e => !isBundledEdge(e)).map(e => ({ edge: e, kind: "wire" })),
+    ...index.cables.map(e => ({ edge: e, kind: "cable" })),
+  ];
+
+  for (const { edge, kind } of items) {
+    const length = getConductorLength(index, edge);
+    if (length === null) continue;
+    const inches = length / 25.4;
+    const tolerance = inches * options.lengthTolerancePercent / 100;
+    const color = getDisplayProperty(edge, "insulation");
+    steps.push({
+      category: "mechanical",
+      instruction: `Measure the length of ${kind} ${index.edgeName(edge.id)}${color ? ` (${color.toUpperCase()})` : ""}.`,
+      expected: `${formatLength(length)} ± ${options.lengthTolerancePercent}%`,
+      limits: { min: round(inches - tolerance), max: round(inches + tolerance) },
+      unit: "in",
+      edgeIds: [edge.id],
+    });
+  }
+  return steps;
+}
+
+
+// Build the numbered test procedure for a diagram
+export function generateTestPlan(
+  ctx: TestPlanContext,
+  overrides: Partial<TestPlanOptions> = {}
+): TestInstruction[] {
+  const options = { ...DEFAULT_TEST_PLAN_OPTIONS, ...overrides };
+  const steps = [
+    ...continuitySteps(ctx.index, ctx.nets, options),
+    ...isolationSteps(ctx.index, ctx.nets, options),
+    ...powerSteps(ctx, options),
+    ...shieldSteps(ctx, options),
+    ...mechanicalSteps(ctx.index, options),
+  ];
+
+  const counters = new Map<TestCategory, number>();
+  return steps.map(step => {
+    const n = (counters.get(step.category) ?? 0) + 1;
+    counters.set(step.category, n);
+    return { id: `${STEP_PREFIX[step.category]}-${String(n).padStart(3, "0")}`, ...step };
+  });
+}
+
+
+// Limits as printed in a procedure: "0.5 – 1 V", "≤ 1 Ω", "≥ 100 MΩ"
+export function formatLimits(test: TestInstruction): string {
+  const { min, max } = test.limits;
+  if (min !== undefined && max !== undefined) return `${min} – ${max} ${test.unit}`;
+  if (max !== undefined) return `≤ ${max} ${test.unit}`;
+  if (min !== undefined) return `≥ ${min} ${test.unit}`;
+  return "—";
+}
@@ -0,0 +1,241 @@
+// test execution records: measured values for the steps of a generated test plan,
+// judged against each step's limits, with the operator, timestamps and a sign-off.
+// a record names the diagram revision it was run against by a hash of the diagram,
+// so a record can be matched to (or flagged as stale for) the diagram on screen.
+// records are kept in browser storage and can be downloaded and loaded back as JSON
+
+import type { TestInstruction } from "./ercTypes";
+import { toCsv } from "./csv";
+import { parseLength } from "./units";
+
+export type Verdict = "pass" | "fail" | "pending";
+
+export interface TestMeasurement {
+  raw: string;            // as typed, e.g. "0.4", "27.9 V", "120 MΩ"
+  value: number | null;   // in the step's unit; null when not a number
+  verdict: Verdict;
+  manual: boolean;        // verdict set by the operator rather than from the limits
+  note?: string;
+  measuredAt: string;     // ISO timestamp
+}
+
+export interface TestRun {
+  id: string;
+  diagramHash: string;    // see hashDiagram
+  revision?: string;      // drawing revision as written on the harness label, if any
+  serial?: string;        // unit under test
+  operator: string;
+  startedAt: string;      // ISO timestamps
+  signedOffBy?: string;
+  signedOffAt?: string;
+  steps: TestInstruction[];                       // the plan as generated when the run started
+  measurements: Record<string, TestMeasurement>;  // step id → latest measurement
+}
+
+export interface RunSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  pending: number;
+}
+
+export class TestRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TestRecordError";
+  }
+}
+
+const STORAGE_KEY = "artifact-erc.testRuns";
+
+// scale of SI prefixes on a reading, e.g. "350 mΩ" on an Ω step
+const PREFIXES: Record<string, number> = { "": 1, m: 1e-3, k: 1e3, M: 1e6, G: 1e9 };
+
+
+// Canonical JSON: object keys sorted, so key order does not change the hash
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+
+// Revision fingerprint of a diagram document (53-bit string hash, as hex)
+export function hashDiagram(diagram: unknown): string {
+  const text = canonicalJson(diagram);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, "0");
+}
+
+
+// Read a measurement in the step's unit: "0.4", "350 mΩ", "27.9V", "120 MΩ", "305 mm"
+export function parseMeasurement(raw: string, unit: string): number | null {
+  const text = raw.trim();
+  if (unit === "in") {
+    const mm = parseLength(text);
+    return mm === null ? null : +(mm / 25.4).toPrecision(12);
+  }
+
+  const match = text.match(/^([+-]?(?:\d+(?:\.\d+)?|\.\d+))\s*([mkMG]?)(Ω|ohms?|V)?$/i);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  const symbol = match[3] ? (match[3].toUpperCase() === "V" ? "V" : "Ω") : null;
+  const base = unit.slice(-1);  // "Ω" for Ω and MΩ, "V" for V
+  if (symbol && symbol !== base) return null;
+
+  // "m" and "M" keep their case-sensitive meaning; "K" and "g" can only be kilo and giga
+  const prefix = ({ K: "k", g: "G" } as Record<string, string>)[match[2]] ?? match[2];
+  if (!match[2] && !symbol) return value; // a bare number is already in the step's unit
+  const stepScale = PREFIXES[unit.length > 1 ? unit[0] : ""] ?? 1;
+  return +((value * PREFIXES[prefix]) / stepScale).toPrecision(12);
+}
+
+
+// Judge a reading against the step's limits; steps without limits need the operator's call
+export function evaluateMeasurement(test: TestInstruction, value: number | null): Verdict {
+  const { min, max } = test.limits;
+  if (value === null || (min === undefined && max === undefined)) return "pending";
+  if (min !== undefined && value < min) return "fail";
+  if (max !== undefined && value > max) return "fail";
+  return "pass";
+}
+
+
+export function startRun(
+  steps: TestInstruction[],
+  diagramHash: string,
+  details: { operator: string; revision?: string; serial?: string },
+  now = new Date()
+): TestRun {
+  return {
+    id: `run-${now.getTime().toString(36)}`,
+    diagramHash,
+    revision: details.revision || undefined,
+    serial: details.serial || undefined,
+    operator: details.operator,
+    startedAt: now.toISOString(),
+    steps,
+    measurements: {},
+  };
+}
+
+
+// Record a reading for one step; `verdict` overrides the limits (for steps without any)
+export function recordMeasurement(
+  run: TestRun,
+  stepId: string,
+  raw: string,
+  options: { verdict?: Verdict; note?: string } = {},
+  now = new Date()
+): TestRun {
+  const step = run.steps.find(s => s.id === stepId);
+  if (!step) throw new TestRecordError(`Unknown test step "${stepId}".`);
+  if (run.signedOffAt) throw new TestRecordError("The run is signed off and can no longer be changed.");
+
+  const value = parseMeasurement(raw, step.unit);
+  const measurement: TestMeasurement = {
+    raw,
+    value,
+    verdict: options.verdict ?? evaluateMeasurement(step, value),
+    manual: options.verdict !== undefined,
+    note: options.note || undefined,
+    measuredAt: now.toISOString(),
+  };
+  return { ...run, measurements: { ...run.measurements, [stepId]: measurement } };
+}
+
+
+export function summarizeRun(run: TestRun): RunSummary {
+  const summary: RunSummary = { total: run.steps.length, passed: 0, failed: 0, pending: 0 };
+  for (const step of run.steps) {
+    const verdict = run.measurements[step.id]?.verdict ?? "pending";
+    if (verdict === "pass") summary.passed++;
+    else if (verdict === "fail") summary.failed++;
+    else summary.pending++;
+  }
+  return summary;
+}
+
+
+// Sign the run off; every step needs a verdict first
+export function signOffRun(run: TestRun, name: string, now = new Date()): TestRun {
+  if (!name.trim()) throw new TestRecordError("Sign-off needs a name.");
+  const { pending } = summarizeRun(run);
+  if (pending > 0) throw new TestRecordError(`${pending} step(s) still have no verdict.`);
+  return { ...run, signedOffBy: name.trim(), signedOffAt: now.toISOString() };
+}
+
+
+// Load a downloaded run back, checking the fields the page relies on
+export function parseTestRun(json: unknown): TestRun {
+  const run = json as Partial<TestRun> | null;
+  if (typeof run !== "object" || run === null || Array.isArray(run)) {
+    throw new TestRecordError("A test record must be a JSON object.");
+  }
+  for (const key of ["id", "diagramHash", "operator", "startedAt"] as const) {
+    if (typeof run[key] !== "string") throw new TestRecordError(`Test record is missing \`${key}\`.`);
+  }
+  if (!Array.isArray(run.steps) || run.steps.some(s => typeof s?.id !== "string" || typeof s?.unit !== "string")) {
+    throw new TestRecordError("Test record `steps` must be a list of test steps.");
+  }
+  if (typeof run.measurements !== "object" || run.measurements === null) {
+    throw new TestRecordError("Test record is missing `measurements`.");
+  }
+  return run as TestRun;
+}
+
+
+export function testRunToCsv(run: TestRun): string {
+  return toCsv(
+    ["Step", "Category", "Procedure", "From", "To", "Expected", "Min", "Max", "Unit", "Measured", "Value", "Verdict", "Note", "Measured At"],
+    run.steps.map(step => {
+      const m = run.measurements[step.id];
+      return [
+        step.id, step.category, step.instruction, step.from, step.to, step.expected,
+        step.limits.min, step.limits.max, step.unit,
+        m?.raw, m?.value, m?.verdict ?? "pending", m?.note, m?.measuredAt,
+      ];
+    })
+  );
+}
+
+
+// ---------------------------------------------------------------------------
+// browser storage: every saved run, newest first
+
+export function loadRuns(): TestRun[] {
+  if (typeof localStorage === "undefined") return [];
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved.flatMap(r => { try { return [parseTestRun(r)]; } catch { return []; } }) : [];
+  } catch {
+    return [];
+  }
+}
+
+
+export function saveRun(run: TestRun): TestRun[] {
+  const runs = [run, ...loadRuns().filter(r => r.id !== run.id)];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+  return runs;
+}
+
+
+export function deleteRun(id: string): TestRun[] {
+  const runs = loadRuns().filter(r => r.id !== id);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(runs));
+  return runs;
+}
@@ -0,0 +1,112 @@
+// unit handling for free-form values: wire lengths, pin currents, voltages and tolerances
+// lengths are normalized to millimetres (a bare number is taken as inches, and
+// fractions like "12 1/2" are accepted), currents to amps and voltages to volts
+
+const MM_PER_UNIT: Record<string, number> = {
+  mm: 1,
+  millimeter: 1,
+  millimeters: 1,
+  millimetre: 1,
+  millimetres: 1,
+  cm: 10,
+  centimeter: 10,
+  centimeters: 10,
+  centimetre: 10,
+  centimetres: 10,
+  m: 1000,
+  meter: 1000,
+  meters: 1000,
+  metre: 1000,
+  metres: 1000,
+  in: 25.4,
+  inch: 25.4,
+  inches: 25.4,
+  '"': 25.4,
+  ft: 304.8,
+  feet: 304.8,
+  foot: 304.8,
+  "'": 304.8,
+};
+
+
+// "12", "1.5", ".5", "3/4", "12 1/2", "12-1/2" → number (null if unreadable)
+function parseMagnitude(text: string): number | null {
+  const decimal = text.match(/^(\d+(?:\.\d+)?|\.\d+)$/);
+  if (decimal) return parseFloat(decimal[1]);
+
+  const fraction = text.match(/^(?:(\d+)(?:\s+|\s*-\s*))?(\d+)\s*\/\s*(\d+)$/);
+  if (!fraction || Number(fraction[3]) === 0) return null;
+  return Number(fraction[1] || 0) + Number(fraction[2]) / Number(fraction[3]);
+}
+
+
+// Parse "12", "12 in", '12"', "12 1/2 in", '3/4"', "2 ft", "2 ft 6 in", `2' 6"`, "300mm",
+// "1.5 m" → millimetres (null if unreadable)
+export function parseLength(value: string | undefined): number | null {
+  if (!value) return null;
+  const text = value.trim().toLowerCase();
+
+  const feetAndInches = text.match(/^([\d./\s-]*\d)\s*(?:ft|feet|foot|')\.?\s*(\d.*)$/);
+  if (feetAndInches) {
+    const feet = parseMagnitude(feetAndInches[1]);
+    const rest = parseLength(feetAndInches[2]);
+    return feet === null || rest === null ? null : feet * MM_PER_UNIT.ft + rest;
+  }
+
+  const match = text.match(/^([\d./\s-]*\d)\s*([a-z"']*)\.?$/);
+  if (!match) return null;
+
+  const factor = MM_PER_UNIT[match[2] || "in"];
+  const magnitude = parseMagnitude(match[1]);
+  if (factor === undefined || magnitude === null) return null;
+  return magnitude * factor;
+}
+
+
+// Format millimetres for messages, in inches to match the rest of the tool
+export function formatLength(mm: number): string {
+  return `${+(mm / 25.4).toFixed(2)} in`;
+}
+
+
+const AMPS_PER_UNIT: Record<string, number> = { "": 1, a: 1, ma: 0.001 };
+const VOLTS_PER_UNIT: Record<string, number> = { "": 1, v: 1, vdc: 1, vac: 1, mv: 0.001, kv: 1000 };
+
+
+function parseQuantity(value: number | string | undefined, units: Record<string, number>): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (!value) return null;
+  const match = value.trim().toLowerCase().match(/^([+-]?(?:\d+(?:\.\d+)?|\.\d+))\s*([a-z]*)$/);
+  if (!match || units[match[2]] === undefined) return null;
+  return parseFloat(match[1]) * units[match[2]];
+}
+
+
+// Parse a pin or port current: 2.5, "2.5 A", "500mA" → amps
+export function parseCurrent(value: number | string | undefined): number | null {
+  return parseQuantity(value, AMPS_PER_UNIT);
+}
+
+
+// Parse a pin or port voltage: 28, "+28V", "5 VDC" → volts
+export function parseVoltage(value: number | string | undefined): number | null {
+  return parseQuantity(value, VOLTS_PER_UNIT);
+}
+
+
+export interface Tolerance {
+  amount: number;
+  percent: boolean;       // amount is a percentage of the nominal value, otherwise volts
+}
+
+
+// Parse a voltage tolerance: 10, "10%", "±10%", "+/-0.5V", "500mV" (a bare number is percent)
+export function parseTolerance(value: number | string | undefined): Tolerance | null {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? { amount: value, percent: true } : null;
+  if (!value) return null;
+  const match = value.trim().toLowerCase().replace(/^(?:±|\+\/-|\+-)\s*/, "").match(/^(\d+(?:\.\d+)?|\.\d+)\s*(%|v|mv)?$/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  if (!match[2] || match[2] === "%") return { amount, percent: true };
+  return { amount: amount * (match[2] === "mv" ? 0.001 : 1), percent: false };
+}
@@ -0,0 +1,139 @@
+// waivers: accepted ERC results, recorded with who accepted them and why
+// a waiver names a rule and a node or edge id; a result whose every node and edge is
+// waived for its rule moves to the report's `waived` list instead of being shown as an
+// error or warning (a net-level result naming several wires needs a waiver for each).
+// waivers live in the diagram (`waivers: [...]`) or in a sidecar file
+//
+// { "ruleId": "floatingWires", "elementId": "e12", "author": "jdoe",
+//   "date": "2025-03-14", "reason": "TP3 test-point stub, left open on purpose" }
+
+import type { ERCResult } from "./ercTypes";
+
+export interface Waiver {
+  ruleId: string;
+  elementId: string;      // node or edge id named by the waived result
+  author: string;
+  date: string;           // YYYY-MM-DD
+  reason: string;
+}
+
+export interface WaivedResult extends ERCResult {
+  waiver: Waiver;
+}
+
+export interface WaiverProblem {
+  path: string;
+  message: string;
+}
+
+// stale waivers are reported under their own id, like schema problems: not a registry rule
+export const WAIVER_RULE_ID = "waivers";
+
+export class WaiverError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid waivers:\n${problems.map(p => `  • ${p}`).join("\n")}`);
+    this.name = "WaiverError";
+  }
+}
+
+const FIELDS = ["ruleId", "elementId", "author", "date", "reason"] as const;
+
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+
+// Problems with one waiver entry (empty when it is usable)
+export function checkWaiver(value: unknown, path: string): WaiverProblem[] {
+  if (!isObject(value)) return [{ path, message: "Waiver must be an object." }];
+
+  const problems: WaiverProblem[] = [];
+  for (const key of FIELDS) {
+    const field = value[key];
+    if (typeof field !== "string" || field.trim() === "") {
+      problems.push({ path: `${path}.${key}`, message: `Waiver is missing \`${key}\`.` });
+    }
+  }
+  const date = value.date;
+  if (typeof date === "string" && date.trim() !== "" && !isCalendarDate(date)) {
+    problems.push({ path: `${path}.date`, message: `Waiver date "${date}" is not a YYYY-MM-DD date.` });
+  }
+  return problems;
+}
+
+
+// exactly YYYY-MM-DD, and a real day ("2025-02-30" is not)
+function isCalendarDate(text: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return false;
+  const time = Date.parse(text);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === text;
+}
+
+
+// Parse a waiver sidecar file: a list of waivers or { "waivers": [...] }
+export function parseWaivers(json: unknown): Waiver[] {
+  const list = isObject(json) ? json.waivers : json;
+  if (!Array.isArray(list)) {
+    throw new WaiverError(["Expected a list of waivers or an object with a `waivers` list."]);
+  }
+
+  const problems = list.flatMap((w, i) => checkWaiver(w, `waivers[${i}]`));
+  if (problems.length > 0) {
+    throw new WaiverError(problems.map(p => `${p.path}: ${p.message}`));
+  }
+  return list as Waiver[];
+}
+
+
+// Split results into kept and waived; waivers that match nothing come back as warnings.
+// Only waivers for rules that ran (`ranRuleIds`) can be judged stale.
+export function applyWaivers(
+  results: ERCResult[],
+  waivers: Waiver[],
+  ranRuleIds: Set<string>,
+  knownRuleIds: Set<string>,
+  knownElementIds: Set<string>
+): { results: ERCResult[]; waived: WaivedResult[]; stale: ERCResult[] } {
+  const kept: ERCResult[] = [];
+  const waived: WaivedResult[] = [];
+  const used = new Set<Waiver>();
+  const partial = new Map<Waiver, string[]>();  // waiver → elements of a result it left unwaived
+
+  for (const result of results) {
+    // the waiver for each node and edge the result names
+    const elementIds = [...(result.nodeIds || []), ...(result.edgeIds || [])];
+    const covering = elementIds.map(id => waivers.find(w => w.ruleId === result.ruleId && w.elementId === id));
+    const found = covering.filter((w): w is Waiver => w !== undefined);
+    if (found.length === 0 || found.length < covering.length) {
+      found.forEach(w => partial.set(w, elementIds.filter((_, i) => !covering[i])));
+      kept.push(result);
+      continue;
+    }
+    found.forEach(w => used.add(w));
+    waived.push({ ...result, waiver: found[0] });
+  }
+
+  const stale: ERCResult[] = [];
+  for (const waiver of waivers) {
+    if (used.has(waiver)) continue;
+
+    const name = `Waiver for ${waiver.ruleId} on "${waiver.elementId}" (${waiver.author}, ${waiver.date})`;
+    let message: string | null = null;
+    if (!knownRuleIds.has(waiver.ruleId)) {
+      message = `${name} names an unknown rule.`;
+    } else if (!knownElementIds.has(waiver.elementId)) {
+      message = `${name} names an element that is no longer in the diagram.`;
+    } else if (partial.has(waiver)) {
+      const missing = partial.get(waiver)!.map(id => `"${id}"`).join(", ");
+      message = `${name} covers only part of a result; it also names ${missing}, which need waivers too.`;
+    } else if (ranRuleIds.has(waiver.ruleId)) {
+      message = `${name} no longer matches any result and can be removed.`;
+    }
+    if (!message) continue;
+
+    stale.push({ ruleId: WAIVER_RULE_ID, type: "warning", message });
+  }
+
+  return { results: kept, waived, stale };
+}
@@ -0,0 +1,43 @@
+// insulation colors: the `insulation` display property is free-form ("Red", "RD", "WHT/RED",
+// "white-red", MIL-STD-681 "92"). normalizeColor reduces it to upper-case color names, base
+// color first and stripes after, joined by "/" ("WHITE/RED"), so spellings can be compared
+
+const COLOR_ALIASES: Record<string, string> = {
+  BK: "BLACK", BLK: "BLACK",
+  BN: "BROWN", BRN: "BROWN",
+  RD: "RED",
+  OG: "ORANGE", OR: "ORANGE", ORG: "ORANGE", ORN: "ORANGE",
+  YE: "YELLOW", YL: "YELLOW", YEL: "YELLOW", YLW: "YELLOW",
+  GN: "GREEN", GRN: "GREEN",
+  BU: "BLUE", BL: "BLUE", BLU: "BLUE",
+  VT: "VIOLET", VI: "VIOLET", VIO: "VIOLET", PU: "VIOLET", PRP: "VIOLET", PURPLE: "VIOLET",
+  GY: "GRAY", GRY: "GRAY", GREY: "GRAY",
+  WH: "WHITE", WT: "WHITE", WHT: "WHITE",
+  PK: "PINK", PNK: "PINK",
+  TN: "TAN",
+};
+
+// shades are kept with the color after them ("LT BLU" is "LIGHT BLUE")
+const SHADES: Record<string, string> = { LT: "LIGHT", LIGHT: "LIGHT", DK: "DARK", DARK: "DARK" };
+
+// MIL-STD-681 digit codes: one digit per color, base color first ("90" is white with a black stripe)
+const DIGIT_COLORS = ["BLACK", "BROWN", "RED", "ORANGE", "YELLOW", "GREEN", "BLUE", "VIOLET", "GRAY", "WHITE"];
+
+
+// Normalized color ("WHITE/RED"), or null when nothing is written; names it doesn't know are kept upper-cased
+export function normalizeColor(text: string | undefined): string | null {
+  const trimmed = text?.trim().toUpperCase();
+  if (!trimmed) return null;
+  if (/^\d{1,3}$/.test(trimmed)) return [...trimmed].map(d => DIGIT_COLORS[Number(d)]).join("/");
+  const colors: string[] = [];
+  let shade = "";
+  for (const name of trimmed.split(/[\s/\-_]+/).filter(Boolean)) {
+    if (SHADES[name]) {
+      shade = `${SHADES[name]} `;
+      continue;
+    }
+    colors.push(shade + (COLOR_ALIASES[name] ?? name));
+    shade = "";
+  }
+  return colors.join("/") || shade.trim() || null;
+}
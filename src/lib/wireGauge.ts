@@ -0,0 +1,94 @@
+// wire gauge tables: AWG ↔ cross-section, copper resistance and ampacity
+// the `gauge` display property may be AWG ("20 AWG", "AWG20", "#20") or metric ("0.5 mm2", "0.5mm²")
+
+export interface WireGauge {
+  label: string;          // as written on the wire, e.g. "20 AWG"
+  awg?: number;
+  areaMm2: number;
+}
+
+// copper resistivity at 20 °C, Ω·mm²/m
+const COPPER_RESISTIVITY = 0.01724;
+
+// copper density, g/cm³ (1 mm² over 1 m is 1 cm³)
+const COPPER_DENSITY = 8.96;
+
+// continuous current for a single copper wire in a bundle, amps (conservative harness values)
+const AWG_AMPACITY: Record<number, number> = {
+  30: 0.5,
+  28: 0.8,
+  26: 1.3,
+  24: 2.1,
+  22: 3,
+  20: 5,
+  18: 7,
+  16: 10,
+  14: 15,
+  12: 20,
+  10: 30,
+  8: 40,
+  6: 55,
+  4: 70,
+  2: 95,
+  1: 110,
+  0: 125,
+};
+
+
+// Cross-section of an AWG size in mm² (0 AWG is "1/0"; larger sizes aren't used in harnesses)
+export function awgToMm2(awg: number): number {
+  const diameter = 0.127 * Math.pow(92, (36 - awg) / 39);
+  return (Math.PI / 4) * diameter * diameter;
+}
+
+
+// Parse the `gauge` display property (null if unreadable)
+export function parseGauge(value: string | undefined): WireGauge | null {
+  if (!value) return null;
+  const text = value.trim().toLowerCase().replace(/\s+/g, "");
+
+  const awg = text.match(/^(?:awg|#)?(\d{1,2}|1\/0)(?:awg|ga)?$/);
+  if (awg && (/awg|#|ga/.test(text) || !text.includes("."))) {
+    const size = awg[1] === "1/0" ? 0 : parseInt(awg[1], 10);
+    if (size > 40) return null;
+    return { label: value.trim(), awg: size, areaMm2: awgToMm2(size) };
+  }
+
+  const metric = text.match(/^(\d+(?:\.\d+)?|\.\d+)(?:mm2|mm²|mm\^2|sqmm)$/);
+  if (metric) {
+    return { label: value.trim(), areaMm2: parseFloat(metric[1]) };
+  }
+
+  return null;
+}
+
+
+// Copper resistance per metre, Ω/m
+export function resistancePerMetre(gauge: WireGauge): number {
+  return COPPER_RESISTIVITY / gauge.areaMm2;
+}
+
+
+// Copper weight per metre, g/m (the conductor's cross-section only, no insulation)
+export function copperGramsPerMetre(gauge: WireGauge): number {
+  return COPPER_DENSITY * gauge.areaMm2;
+}
+
+
+// Rated continuous current, interpolated by cross-section between table sizes
+export function ampacity(gauge: WireGauge): number {
+  if (gauge.awg !== undefined && AWG_AMPACITY[gauge.awg] !== undefined) return AWG_AMPACITY[gauge.awg];
+
+  const table = Object.entries(AWG_AMPACITY)
+    .map(([awg, amps]) => ({ area: awgToMm2(Number(awg)), amps }))
+    .sort((a, b) => a.area - b.area);
+
+  if (gauge.areaMm2 <= table[0].area) return table[0].amps * (gauge.areaMm2 / table[0].area);
+  for (let i = 1; i < table.length; i++) {
+    const [lo, hi] = [table[i - 1], table[i]];
+    if (gauge.areaMm2 <= hi.area) {
+      return lo.amps + ((gauge.areaMm2 - lo.area) / (hi.area - lo.area)) * (hi.amps - lo.amps);
+    }
+  }
+  return table[table.length - 1].amps;
+}
@@ -0,0 +1,100 @@
+// wire list (from-to table) for the assembly floor: one row per conductor, in diagram order.
+// cable conductors without their own length or color take the cable's
+
+import { Diagram, DiagramEdge, getDisplayProperty, isGhostNode } from "./diagram";
+import { buildDiagramIndex, DiagramIndex, findPin, getParentCable } from "./diagramIndex";
+import { getConductorLength } from "./connectivity";
+import { toCsv } from "./csv";
+
+export interface WireEnd {
+  component: string;      // reference name of the node, empty when the end is unconnected
+  port: string;
+  pin: string;
+}
+
+export interface WireListRow {
+  edgeId: string;
+  wire: string;           // wire reference name
+  from: WireEnd;
+  to: WireEnd;
+  color: string;          // insulation
+  gauge: string;
+  length: string;         // as written on the wire (or its cable)
+  lengthMm: number | null;
+  cable: string;          // reference name of the parent cable, if any
+}
+
+const UNCONNECTED: WireEnd = { component: "", port: "", pin: "" };
+
+
+// the written value of a conductor property, falling back to its cable
+function inherited(index: DiagramIndex, edge: DiagramEdge, key: string): string {
+  const own = getDisplayProperty(edge, key);
+  if (own || !edge.data?.parent_id) return own || "";
+  return getDisplayProperty(getParentCable(index, edge), key) || "";
+}
+
+
+function resolveEnd(index: DiagramIndex, nodeId: string | undefined, handle: string | null | undefined): WireEnd {
+  const node = nodeId ? index.nodesById.get(nodeId) : undefined;
+  if (!node || isGhostNode(node)) return UNCONNECTED;
+
+  const component = index.nodeName(node.id);
+  const owner = findPin(index, node.id, handle);
+  if (owner?.pin) return { component, port: owner.port.name || owner.port.id, pin: owner.pin.name || owner.pin.id };
+  // bundles and splices have no ports; the handle is only a drawing anchor
+  return { component, port: "", pin: "" };
+}
+
+
+export function buildWireList(diagram: Diagram): WireListRow[] {
+  const index = buildDiagramIndex(diagram);
+  return index.conductors.map(edge => {
+    const parentId = edge.data?.parent_id;
+    return {
+      edgeId: edge.id,
+      wire: index.edgeName(edge.id),
+      from: resolveEnd(index, edge.source, edge.sourceHandle),
+      to: resolveEnd(index, edge.target, edge.targetHandle),
+      color: inherited(index, edge, "insulation"),
+      gauge: inherited(index, edge, "gauge"),
+      length: inherited(index, edge, "length"),
+      lengthMm: getConductorLength(index, edge),
+      cable: parentId ? index.edgeName(parentId) : "",
+    };
+  });
+}
+
+
+export function wireListToCsv(rows: WireListRow[]): string {
+  return toCsv(
+    [
+      "Wire",
+      "From Component",
+      "From Port",
+      "From Pin",
+      "To Component",
+      "To Port",
+      "To Pin",
+      "Color",
+      "Gauge",
+      "Length",
+      "Length (mm)",
+      "Cable",
+    ],
+    rows.map(r => [
+      r.wire,
+      r.from.component,
+      r.from.port,
+      r.from.pin,
+      r.to.component,
+      r.to.port,
+      r.to.pin,
+      r.color,
+      r.gauge,
+      r.length,
+      r.lengthMm === null ? "" : +r.lengthMm.toFixed(1),
+      r.cable,
+    ])
+  );
+}
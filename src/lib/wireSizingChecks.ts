@@ -0,0 +1,133 @@
+// wire sizing: gauge vs. current (ampacity) and voltage drop over the wire length
+// currents and voltages come from `current` / `voltage` on pins (or their port),
+// and apply to every conductor on the pin's net
+
+import { DiagramEdge, getDisplayProperty } from "./diagram";
+import { getConductorGauge, getConductorLength, getNetLoads, Net } from "./connectivity";
+import type { ERCContext, ERCResult, ERCRule } from "./ercTypes";
+import { formatLength } from "./units";
+import { ampacity, resistancePerMetre } from "./wireGauge";
+
+export const WIRE_SIZING_RULES: ERCRule[] = [
+  {
+    id: "wireAmpacity",
+    label: "Wire Ampacity",
+    description: "Check that each wire's gauge can carry the current on its net",
+    severity: "error",
+    category: "electrical",
+    check: checkWireAmpacity,
+  },
+  {
+    id: "wireVoltageDrop",
+    label: "Wire Voltage Drop",
+    description: "Check the voltage drop over each wire's length against a maximum percentage",
+    severity: "warning",
+    category: "electrical",
+    params: { maxDropPercent: 5 },
+    check: checkWireVoltageDrop,
+  },
+  {
+    id: "wireGaugeMissing",
+    label: "Missing Wire Gauge",
+    description: "Check that wires on power nets have a readable gauge",
+    severity: "warning",
+    category: "metadata",
+    check: checkWireGaugeMissing,
+  },
+];
+
+
+function netEdges(ctx: ERCContext, net: Net): DiagramEdge[] {
+  return net.edgeIds
+    .map(id => ctx.index.edgesById.get(id))
+    .filter((e): e is DiagramEdge => e !== undefined);
+}
+
+
+// Check that no wire carries more current than its gauge is rated for
+function checkWireAmpacity(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+
+  for (const [net, { current }] of getNetLoads(ctx.diagram, ctx.nets)) {
+    if (!current) continue;
+
+    for (const edge of netEdges(ctx, net)) {
+      const gauge = getConductorGauge(ctx.index, edge);
+      if (!gauge) continue;
+
+      const rated = ampacity(gauge);
+      if (current <= rated) continue;
+
+      results.push({
+        ruleId: "wireAmpacity",
+        type: "error",
+        edgeIds: [edge.id],
+        message:
+          `Wire "${ctx.index.edgeName(edge.id)}" (${gauge.label}) is undersized: ` +
+          `net ${net.name} carries ${current} A but the wire is rated for ${+rated.toFixed(1)} A.`,
+      });
+    }
+  }
+
+  return results;
+}
+
+
+// Check the voltage drop across each wire against maxDropPercent of the net voltage
+function checkWireVoltageDrop(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+  const maxDrop = Number(ctx.params("wireVoltageDrop").maxDropPercent);
+
+  for (const [net, { current, voltage }] of getNetLoads(ctx.diagram, ctx.nets)) {
+    if (!current || !voltage) continue;
+
+    for (const edge of netEdges(ctx, net)) {
+      const gauge = getConductorGauge(ctx.index, edge);
+      const length = getConductorLength(ctx.index, edge);
+      if (!gauge || length === null) continue;
+
+      const ohmsPerMetre = resistancePerMetre(gauge);
+      const drop = current * ohmsPerMetre * (length / 1000);
+      const percent = (drop / voltage) * 100;
+      if (percent <= maxDrop) continue;
+
+      results.push({
+        ruleId: "wireVoltageDrop",
+        type: "warning",
+        edgeIds: [edge.id],
+        message:
+          `Wire "${ctx.index.edgeName(edge.id)}" drops ${drop.toFixed(2)} V (${percent.toFixed(1)}% of ${voltage} V, limit ${maxDrop}%) ` +
+          `at ${current} A over ${formatLength(length)} of ${gauge.label} (${(ohmsPerMetre * 1000).toFixed(1)} mΩ/m).`,
+      });
+    }
+  }
+
+  return results;
+}
+
+
+// Check that wires on power nets (PWR / GND pins, or a known current) have a gauge
+function checkWireGaugeMissing(ctx: ERCContext): ERCResult[] {
+  const results: ERCResult[] = [];
+
+  for (const [net, { current }] of getNetLoads(ctx.diagram, ctx.nets)) {
+    const isPower = !!current || net.pins.some(p => p.function === "PWR" || p.function === "GND");
+    if (!isPower) continue;
+
+    for (const edge of netEdges(ctx, net)) {
+      if (getConductorGauge(ctx.index, edge)) continue;
+
+      const written = getDisplayProperty(edge, "gauge");
+      results.push({
+        ruleId: "wireGaugeMissing",
+        type: "warning",
+        edgeIds: [edge.id],
+        message: written
+          ? `Wire "${ctx.index.edgeName(edge.id)}" on power net ${net.name} has an unreadable gauge "${written}".`
+          : `Wire "${ctx.index.edgeName(edge.id)}" on power net ${net.name} has no gauge assigned.`,
+      });
+    }
+  }
+
+  return results;
+}
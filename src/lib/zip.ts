@@ -0,0 +1,79 @@
+// minimal zip reader for project uploads: stored and deflated entries, read through the
+// central directory. inflating uses the platform's DecompressionStream ("deflate-raw"),
+// available in current browsers and Node 18+. no zip64, encryption or multi-disk archives
+
+export interface ZipEntry {
+  name: string;           // path inside the archive, e.g. "harness/a.json"
+  data: Uint8Array;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZipError";
+  }
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const MAX_COMMENT = 0xffff;
+
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+
+export function isZip(data: ArrayBuffer): boolean {
+  return data.byteLength >= 4 && new DataView(data).getUint32(0, true) === LOCAL_FILE_HEADER;
+}
+
+
+// Every file in the archive (directories skipped), in central directory order
+export async function readZip(buffer: ArrayBuffer): Promise<ZipEntry[]> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = new TextDecoder();
+
+  // the end record sits at the very end, after an optional comment
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - MAX_COMMENT); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new ZipError("Not a zip archive (no central directory found).");
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (offset === 0xffffffff || count === 0xffff) throw new ZipError("Zip64 archives are not supported.");
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_FILE_HEADER) throw new ZipError("Corrupt zip central directory.");
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 1) throw new ZipError(`${name} is encrypted.`);
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new ZipError(`Corrupt zip entry ${name}.`);
+
+    // the local header repeats the name but may carry a different extra field
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(start, start + compressedSize);
+    if (method === 0) entries.push({ name, data: raw });
+    else if (method === 8) entries.push({ name, data: await inflate(raw) });
+    else throw new ZipError(`${name} uses an unsupported compression method (${method}).`);
+  }
+  return entries;
+}